@@ -43,6 +43,12 @@ export declare const internal: FilterApi<
 export declare const components: {
   stripe: {
     public: {
+      claimWebhookEvent: FunctionReference<
+        "mutation",
+        "internal",
+        { stripeEventId: string },
+        { attempts: number; payload: string } | null
+      >;
       createOrUpdateCustomer: FunctionReference<
         "mutation",
         "internal",
@@ -54,10 +60,23 @@ export declare const components: {
         },
         string
       >;
+      enqueueWebhookEvent: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          livemode: boolean;
+          payload: string;
+          processor?: string;
+          signingSecretIndex?: number;
+          stripeEventId: string;
+          type: string;
+        },
+        { duplicate: boolean }
+      >;
       getAllData: FunctionReference<
         "query",
         "internal",
-        {},
+        { livemode?: boolean },
         {
           checkoutSessions: Array<any>;
           customers: Array<any>;
@@ -66,6 +85,35 @@ export declare const components: {
           subscriptions: Array<any>;
         }
       >;
+      getBillingHealth: FunctionReference<
+        "query",
+        "internal",
+        { gracePeriodDays: number; stripeSubscriptionId: string },
+        {
+          failedPaymentAttempts: number;
+          graceEndsAt?: number;
+          nextPaymentAttempt?: number;
+          paymentFailedAt?: number;
+          state: "healthy" | "grace" | "restricted" | "suspended";
+          status: string;
+        } | null
+      >;
+      getCancellationReasons: FunctionReference<
+        "query",
+        "internal",
+        { from: number; livemode?: boolean; to: number },
+        {
+          byFeedback: Array<{ count: number; feedback: string }>;
+          byReason: Array<{ count: number; reason: string }>;
+          comments: Array<{
+            canceledAt: number;
+            comment: string;
+            feedback?: string;
+            stripeSubscriptionId: string;
+          }>;
+          total: number;
+        }
+      >;
       getCustomer: FunctionReference<
         "query",
         "internal",
@@ -74,11 +122,29 @@ export declare const components: {
           _creationTime: number;
           _id: string;
           email?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           name?: string;
           stripeCustomerId: string;
         } | null
       >;
+      getEntitlementSources: FunctionReference<
+        "query",
+        "internal",
+        { livemode?: boolean; orgId?: string; userId?: string },
+        {
+          featureLookupKeys: Array<string>;
+          subscriptions: Array<{
+            lookupKeys: Array<string>;
+            priceIds: Array<string>;
+            productIds: Array<string>;
+            status: string;
+            stripeCustomerId: string;
+            stripeSubscriptionId: string;
+          }>;
+        }
+      >;
       getPayment: FunctionReference<
         "query",
         "internal",
@@ -89,6 +155,7 @@ export declare const components: {
           amount: number;
           created: number;
           currency: string;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
           status: string;
@@ -97,6 +164,48 @@ export declare const components: {
           userId?: string;
         } | null
       >;
+      getPrice: FunctionReference<
+        "query",
+        "internal",
+        { stripePriceId: string },
+        {
+          _creationTime: number;
+          _id: string;
+          active: boolean;
+          currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          nickname?: string;
+          recurring?: { interval: string; intervalCount: number };
+          stripePriceId: string;
+          stripeProductId: string;
+          type: string;
+          unitAmount?: number;
+        } | null
+      >;
+      getPriceByLookupKey: FunctionReference<
+        "query",
+        "internal",
+        { livemode?: boolean; lookupKey: string },
+        {
+          _creationTime: number;
+          _id: string;
+          active: boolean;
+          currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          nickname?: string;
+          recurring?: { interval: string; intervalCount: number };
+          stripePriceId: string;
+          stripeProductId: string;
+          type: string;
+          unitAmount?: number;
+        } | null
+      >;
       getSubscription: FunctionReference<
         "query",
         "internal",
@@ -104,41 +213,202 @@ export declare const components: {
         {
           _creationTime: number;
           _id: string;
+          billingCycleAnchor?: number;
+          cancelAt?: number;
           cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          cancellationDetails?: {
+            comment?: string;
+            feedback?: string;
+            reason?: string;
+          };
+          collectionMethod?: string;
           currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          defaultPaymentMethod?: string;
+          endedAt?: number;
+          failedPaymentAttempts?: number;
+          lastEventCreated?: number;
+          latestInvoiceId?: string;
+          livemode?: boolean;
+          lookupKey?: string;
           metadata?: any;
+          nextPaymentAttempt?: number;
           orgId?: string;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          paymentFailedAt?: number;
           priceId: string;
           quantity?: number;
+          startDate?: number;
           status: string;
           stripeCustomerId: string;
           stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
           userId?: string;
         } | null
       >;
       getSubscriptionByOrgId: FunctionReference<
         "query",
         "internal",
-        { orgId: string },
+        { livemode?: boolean; orgId: string },
         {
           _creationTime: number;
           _id: string;
+          billingCycleAnchor?: number;
+          cancelAt?: number;
           cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          cancellationDetails?: {
+            comment?: string;
+            feedback?: string;
+            reason?: string;
+          };
+          collectionMethod?: string;
           currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          defaultPaymentMethod?: string;
+          endedAt?: number;
+          failedPaymentAttempts?: number;
+          lastEventCreated?: number;
+          latestInvoiceId?: string;
+          livemode?: boolean;
+          lookupKey?: string;
           metadata?: any;
+          nextPaymentAttempt?: number;
           orgId?: string;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          paymentFailedAt?: number;
           priceId: string;
           quantity?: number;
+          startDate?: number;
           status: string;
           stripeCustomerId: string;
           stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
           userId?: string;
         } | null
       >;
+      getSubscriptionHistory: FunctionReference<
+        "query",
+        "internal",
+        {
+          field?: "status" | "priceId" | "quantity" | "cancelAtPeriodEnd";
+          stripeSubscriptionId: string;
+        },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          field: "status" | "priceId" | "quantity" | "cancelAtPeriodEnd";
+          from?: string | number | boolean;
+          stripeEventId?: string;
+          stripeSubscriptionId: string;
+          timestamp: number;
+          to?: string | number | boolean;
+        }>
+      >;
+      getSubscriptionSchedule: FunctionReference<
+        "query",
+        "internal",
+        { stripeScheduleId: string },
+        {
+          _creationTime: number;
+          _id: string;
+          canceledAt?: number;
+          currentPhase?: { endDate: number; startDate: number };
+          endBehavior: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          phases: Array<{
+            endDate: number;
+            items: Array<{ priceId: string; quantity?: number }>;
+            startDate: number;
+          }>;
+          releasedAt?: number;
+          releasedSubscriptionId?: string;
+          status: string;
+          stripeCustomerId: string;
+          stripeScheduleId: string;
+          stripeSubscriptionId?: string;
+        } | null
+      >;
+      getSubscriptionScheduleBySubscriptionId: FunctionReference<
+        "query",
+        "internal",
+        { stripeSubscriptionId: string },
+        {
+          _creationTime: number;
+          _id: string;
+          canceledAt?: number;
+          currentPhase?: { endDate: number; startDate: number };
+          endBehavior: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          phases: Array<{
+            endDate: number;
+            items: Array<{ priceId: string; quantity?: number }>;
+            startDate: number;
+          }>;
+          releasedAt?: number;
+          releasedSubscriptionId?: string;
+          status: string;
+          stripeCustomerId: string;
+          stripeScheduleId: string;
+          stripeSubscriptionId?: string;
+        } | null
+      >;
+      getTrialStatus: FunctionReference<
+        "query",
+        "internal",
+        { stripeSubscriptionId: string },
+        {
+          isTrialing: boolean;
+          trialDaysRemaining: number;
+          trialEnd?: number;
+          trialStart?: number;
+        } | null
+      >;
+      getWebhookEvent: FunctionReference<
+        "query",
+        "internal",
+        { stripeEventId: string },
+        {
+          _creationTime: number;
+          _id: string;
+          attempts: number;
+          claimedAt?: number;
+          error?: string;
+          errorStack?: string;
+          livemode: boolean;
+          nextAttemptAt?: number;
+          payload?: string;
+          processedAt?: number;
+          receivedAt: number;
+          signingSecretIndex?: number;
+          status: "pending" | "processing" | "processed" | "failed";
+          stripeEventId: string;
+          type: string;
+        } | null
+      >;
+      handleActiveEntitlementSummaryUpdated: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          eventCreated?: number;
+          featureLookupKeys: Array<string>;
+          livemode?: boolean;
+          stripeCustomerId: string;
+        },
+        null
+      >;
       handleCheckoutSessionCompleted: FunctionReference<
         "mutation",
         "internal",
         {
+          livemode?: boolean;
           metadata?: any;
           mode: string;
           stripeCheckoutSessionId: string;
@@ -151,6 +421,8 @@ export declare const components: {
         "internal",
         {
           email?: string;
+          eventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           name?: string;
           stripeCustomerId: string;
@@ -162,6 +434,8 @@ export declare const components: {
         "internal",
         {
           email?: string;
+          eventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           name?: string;
           stripeCustomerId: string;
@@ -175,6 +449,8 @@ export declare const components: {
           amountDue: number;
           amountPaid: number;
           created: number;
+          eventCreated?: number;
+          livemode?: boolean;
           status: string;
           stripeCustomerId: string;
           stripeInvoiceId: string;
@@ -185,13 +461,24 @@ export declare const components: {
       handleInvoicePaid: FunctionReference<
         "mutation",
         "internal",
-        { amountPaid: number; stripeInvoiceId: string },
+        {
+          amountPaid: number;
+          eventCreated?: number;
+          stripeInvoiceId: string;
+          stripeSubscriptionId?: string;
+        },
         null
       >;
       handleInvoicePaymentFailed: FunctionReference<
         "mutation",
         "internal",
-        { stripeInvoiceId: string },
+        {
+          attemptCount?: number;
+          eventCreated?: number;
+          nextPaymentAttempt?: number;
+          stripeInvoiceId: string;
+          stripeSubscriptionId?: string;
+        },
         null
       >;
       handlePaymentIntentSucceeded: FunctionReference<
@@ -201,6 +488,7 @@ export declare const components: {
           amount: number;
           created: number;
           currency: string;
+          livemode?: boolean;
           metadata?: any;
           status: string;
           stripeCustomerId?: string;
@@ -208,50 +496,257 @@ export declare const components: {
         },
         null
       >;
+      handlePriceDeleted: FunctionReference<
+        "mutation",
+        "internal",
+        { stripePriceId: string },
+        null
+      >;
+      handlePriceUpdated: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          active: boolean;
+          currency: string;
+          eventCreated?: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          nickname?: string;
+          recurring?: { interval: string; intervalCount: number };
+          stripePriceId: string;
+          stripeProductId: string;
+          type: string;
+          unitAmount?: number;
+        },
+        null
+      >;
+      handleProductDeleted: FunctionReference<
+        "mutation",
+        "internal",
+        { stripeProductId: string },
+        null
+      >;
+      handleProductUpdated: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          active: boolean;
+          defaultPriceId?: string;
+          description?: string;
+          eventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          name: string;
+          stripeProductId: string;
+        },
+        null
+      >;
       handleSubscriptionCreated: FunctionReference<
         "mutation",
         "internal",
         {
+          billingCycleAnchor?: number;
+          cancelAt?: number;
           cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          cancellationDetails?: {
+            comment?: string;
+            feedback?: string;
+            reason?: string;
+          };
+          collectionMethod?: string;
           currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          defaultPaymentMethod?: string;
+          endedAt?: number;
+          eventCreated?: number;
+          eventId?: string;
+          items?: Array<{
+            currentPeriodEnd: number;
+            currentPeriodStart: number;
+            lookupKey?: string;
+            metadata?: any;
+            priceId: string;
+            productId: string;
+            quantity?: number;
+            stripeSubscriptionItemId: string;
+          }>;
+          latestInvoiceId?: string;
+          livemode?: boolean;
+          lookupKey?: string;
           metadata?: any;
+          pauseCollection?: { behavior: string; resumesAt?: number };
           priceId: string;
           quantity?: number;
+          startDate?: number;
           status: string;
           stripeCustomerId: string;
           stripeSubscriptionId: string;
+          syncHook?: { eventId?: string; eventType?: string; handle: string };
+          trialEnd?: number;
+          trialStart?: number;
         },
         null
       >;
       handleSubscriptionDeleted: FunctionReference<
         "mutation",
         "internal",
-        { stripeSubscriptionId: string },
+        {
+          billingCycleAnchor?: number;
+          cancelAt?: number;
+          cancelAtPeriodEnd?: boolean;
+          canceledAt?: number;
+          cancellationDetails?: {
+            comment?: string;
+            feedback?: string;
+            reason?: string;
+          };
+          collectionMethod?: string;
+          currentPeriodEnd?: number;
+          currentPeriodStart?: number;
+          defaultPaymentMethod?: string;
+          endedAt?: number;
+          eventCreated?: number;
+          eventId?: string;
+          items?: Array<{
+            currentPeriodEnd: number;
+            currentPeriodStart: number;
+            lookupKey?: string;
+            metadata?: any;
+            priceId: string;
+            productId: string;
+            quantity?: number;
+            stripeSubscriptionItemId: string;
+          }>;
+          latestInvoiceId?: string;
+          lookupKey?: string;
+          metadata?: any;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          priceId?: string;
+          quantity?: number;
+          startDate?: number;
+          status?: string;
+          stripeSubscriptionId: string;
+          syncHook?: { eventId?: string; eventType?: string; handle: string };
+          trialEnd?: number;
+          trialStart?: number;
+        },
+        null
+      >;
+      handleSubscriptionScheduleUpdated: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          canceledAt?: number;
+          currentPhase?: { endDate: number; startDate: number };
+          endBehavior: string;
+          eventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          phases: Array<{
+            endDate: number;
+            items: Array<{ priceId: string; quantity?: number }>;
+            startDate: number;
+          }>;
+          releasedAt?: number;
+          releasedSubscriptionId?: string;
+          status: string;
+          stripeCustomerId: string;
+          stripeScheduleId: string;
+          stripeSubscriptionId?: string;
+        },
         null
       >;
       handleSubscriptionUpdated: FunctionReference<
         "mutation",
         "internal",
         {
+          billingCycleAnchor?: number;
+          cancelAt?: number;
           cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          cancellationDetails?: {
+            comment?: string;
+            feedback?: string;
+            reason?: string;
+          };
+          collectionMethod?: string;
           currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          defaultPaymentMethod?: string;
+          endedAt?: number;
+          eventCreated?: number;
+          eventId?: string;
+          items?: Array<{
+            currentPeriodEnd: number;
+            currentPeriodStart: number;
+            lookupKey?: string;
+            metadata?: any;
+            priceId: string;
+            productId: string;
+            quantity?: number;
+            stripeSubscriptionItemId: string;
+          }>;
+          latestInvoiceId?: string;
+          livemode?: boolean;
+          lookupKey?: string;
           metadata?: any;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          priceId?: string;
           quantity?: number;
+          startDate?: number;
           status: string;
+          stripeCustomerId?: string;
           stripeSubscriptionId: string;
+          syncHook?: { eventId?: string; eventType?: string; handle: string };
+          trialEnd?: number;
+          trialStart?: number;
         },
         null
       >;
+      isEventProcessed: FunctionReference<
+        "query",
+        "internal",
+        { stripeEventId: string },
+        boolean
+      >;
+      listFailedEvents: FunctionReference<
+        "query",
+        "internal",
+        { limit?: number },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          attempts: number;
+          claimedAt?: number;
+          error?: string;
+          errorStack?: string;
+          livemode: boolean;
+          nextAttemptAt?: number;
+          payload?: string;
+          processedAt?: number;
+          receivedAt: number;
+          signingSecretIndex?: number;
+          status: "pending" | "processing" | "processed" | "failed";
+          stripeEventId: string;
+          type: string;
+        }>
+      >;
       listInvoices: FunctionReference<
         "query",
         "internal",
-        { stripeCustomerId: string },
+        { livemode?: boolean; stripeCustomerId: string },
         Array<{
           _creationTime: number;
           _id: string;
           amountDue: number;
           amountPaid: number;
+          attemptCount?: number;
           created: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          nextPaymentAttempt?: number;
           status: string;
           stripeCustomerId: string;
           stripeInvoiceId: string;
@@ -261,13 +756,14 @@ export declare const components: {
       listPayments: FunctionReference<
         "query",
         "internal",
-        { stripeCustomerId: string },
+        { livemode?: boolean; stripeCustomerId: string },
         Array<{
           _creationTime: number;
           _id: string;
           amount: number;
           created: number;
           currency: string;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
           status: string;
@@ -279,13 +775,14 @@ export declare const components: {
       listPaymentsByOrgId: FunctionReference<
         "query",
         "internal",
-        { orgId: string },
+        { livemode?: boolean; orgId: string },
         Array<{
           _creationTime: number;
           _id: string;
           amount: number;
           created: number;
           currency: string;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
           status: string;
@@ -297,13 +794,14 @@ export declare const components: {
       listPaymentsByUserId: FunctionReference<
         "query",
         "internal",
-        { userId: string },
+        { livemode?: boolean; userId: string },
         Array<{
           _creationTime: number;
           _id: string;
           amount: number;
           created: number;
           currency: string;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
           status: string;
@@ -312,44 +810,176 @@ export declare const components: {
           userId?: string;
         }>
       >;
+      listPrices: FunctionReference<
+        "query",
+        "internal",
+        { active?: boolean; livemode?: boolean; stripeProductId?: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          active: boolean;
+          currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          nickname?: string;
+          recurring?: { interval: string; intervalCount: number };
+          stripePriceId: string;
+          stripeProductId: string;
+          type: string;
+          unitAmount?: number;
+        }>
+      >;
+      listProducts: FunctionReference<
+        "query",
+        "internal",
+        { active?: boolean; livemode?: boolean },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          active: boolean;
+          defaultPriceId?: string;
+          description?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          name: string;
+          stripeProductId: string;
+        }>
+      >;
+      listSubscriptionItems: FunctionReference<
+        "query",
+        "internal",
+        { stripeSubscriptionId: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          currentPeriodEnd: number;
+          currentPeriodStart: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          priceId: string;
+          productId: string;
+          quantity?: number;
+          stripeSubscriptionId: string;
+          stripeSubscriptionItemId: string;
+        }>
+      >;
       listSubscriptions: FunctionReference<
         "query",
         "internal",
-        { stripeCustomerId: string },
+        { livemode?: boolean; stripeCustomerId: string },
         Array<{
           _creationTime: number;
           _id: string;
+          billingCycleAnchor?: number;
+          cancelAt?: number;
           cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          cancellationDetails?: {
+            comment?: string;
+            feedback?: string;
+            reason?: string;
+          };
+          collectionMethod?: string;
           currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          defaultPaymentMethod?: string;
+          endedAt?: number;
+          failedPaymentAttempts?: number;
+          lastEventCreated?: number;
+          latestInvoiceId?: string;
+          livemode?: boolean;
+          lookupKey?: string;
           metadata?: any;
+          nextPaymentAttempt?: number;
           orgId?: string;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          paymentFailedAt?: number;
           priceId: string;
           quantity?: number;
+          startDate?: number;
           status: string;
           stripeCustomerId: string;
           stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
           userId?: string;
         }>
       >;
       listSubscriptionsByUserId: FunctionReference<
         "query",
         "internal",
-        { userId: string },
+        { livemode?: boolean; userId: string },
         Array<{
           _creationTime: number;
           _id: string;
+          billingCycleAnchor?: number;
+          cancelAt?: number;
           cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          cancellationDetails?: {
+            comment?: string;
+            feedback?: string;
+            reason?: string;
+          };
+          collectionMethod?: string;
           currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          defaultPaymentMethod?: string;
+          endedAt?: number;
+          failedPaymentAttempts?: number;
+          lastEventCreated?: number;
+          latestInvoiceId?: string;
+          livemode?: boolean;
+          lookupKey?: string;
           metadata?: any;
+          nextPaymentAttempt?: number;
           orgId?: string;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          paymentFailedAt?: number;
           priceId: string;
           quantity?: number;
+          startDate?: number;
           status: string;
           stripeCustomerId: string;
           stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
           userId?: string;
         }>
       >;
+      markEventFailed: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          error: string;
+          errorStack?: string;
+          nextAttemptAt?: number;
+          stripeEventId: string;
+        },
+        null
+      >;
+      markEventProcessed: FunctionReference<
+        "mutation",
+        "internal",
+        { stripeEventId: string },
+        null
+      >;
+      recordWebhookEvent: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          livemode: boolean;
+          payload?: string;
+          signingSecretIndex?: number;
+          stripeEventId: string;
+          type: string;
+        },
+        { duplicate: boolean }
+      >;
       updatePaymentCustomer: FunctionReference<
         "mutation",
         "internal",
@@ -0,0 +1,622 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import type StripeSDK from "stripe";
+import {
+  TEST_WEBHOOK_SECRET,
+  buildCheckoutSession,
+  buildCustomer,
+  buildInvoice,
+  buildPaymentIntent,
+  buildPrice,
+  buildProduct,
+  buildStripeEvent,
+  buildSubscription,
+  buildSubscriptionItem,
+  buildSubscriptionSchedule,
+  sendStripeWebhook,
+} from "@micky/convex-stripe-component/test";
+import { components } from "./_generated/api";
+import { initConvexTest } from "./setup.test";
+
+// A secret being rotated out, still accepted alongside the current one
+const PREVIOUS_WEBHOOK_SECRET = "whsec_previous";
+
+describe("Stripe webhook route", () => {
+  beforeEach(() => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+    vi.stubEnv(
+      "STRIPE_WEBHOOK_SECRET",
+      `${PREVIOUS_WEBHOOK_SECRET},${TEST_WEBHOOK_SECRET}`
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test("syncs signed events into the component tables", async () => {
+    const t = initConvexTest();
+    const customer = buildCustomer({ email: "jane@example.com" });
+    const subscription = buildSubscription({
+      customer: customer.id,
+      priceId: "price_pro",
+      quantity: 3,
+      metadata: { orgId: "org_1" },
+    });
+    const invoice = buildInvoice({
+      customer: customer.id,
+      amount_due: 3000,
+    });
+
+    for (const event of [
+      buildStripeEvent("customer.created", customer),
+      buildStripeEvent("customer.subscription.created", subscription),
+      buildStripeEvent("invoice.created", invoice),
+      buildStripeEvent("invoice.paid", {
+        ...invoice,
+        status: "paid",
+        amount_paid: 3000,
+      }),
+    ]) {
+      const response = await sendStripeWebhook(t, event);
+      expect(response.status).toBe(200);
+    }
+
+    const synced = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getSubscriptionByOrgId, {
+        orgId: "org_1",
+      })
+    );
+    expect(synced).toMatchObject({
+      stripeSubscriptionId: subscription.id,
+      stripeCustomerId: customer.id,
+      priceId: "price_pro",
+      quantity: 3,
+      status: "active",
+    });
+    const invoices = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.listInvoices, {
+        stripeCustomerId: customer.id,
+      })
+    );
+    expect(invoices).toMatchObject([{ status: "paid", amountPaid: 3000 }]);
+  });
+
+  test("syncs every item of a subscription", async () => {
+    const t = initConvexTest();
+    const subscription = buildSubscription({
+      items: [
+        buildSubscriptionItem({
+          priceId: "price_base",
+          productId: "prod_plan",
+          lookupKey: "plan_monthly",
+        }),
+        buildSubscriptionItem({
+          priceId: "price_seats",
+          productId: "prod_seats",
+          quantity: 4,
+        }),
+        buildSubscriptionItem({
+          priceId: "price_usage",
+          productId: "prod_usage",
+          quantity: undefined,
+        }),
+      ],
+    });
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.created", subscription)
+    );
+
+    const items = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.listSubscriptionItems, {
+        stripeSubscriptionId: subscription.id,
+      })
+    );
+    expect(items).toMatchObject([
+      {
+        priceId: "price_base",
+        productId: "prod_plan",
+        lookupKey: "plan_monthly",
+        quantity: 1,
+      },
+      { priceId: "price_seats", productId: "prod_seats", quantity: 4 },
+      { priceId: "price_usage", productId: "prod_usage" },
+    ]);
+    expect(items[1].lookupKey).toBeUndefined();
+    expect(items[2].quantity).toBeUndefined();
+
+    const synced = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getSubscription, {
+        stripeSubscriptionId: subscription.id,
+      })
+    );
+    expect(synced).toMatchObject({
+      priceId: "price_base",
+      lookupKey: "plan_monthly",
+    });
+  });
+
+  test("syncs subscription lifecycle fields", async () => {
+    const t = initConvexTest();
+    const subscription = buildSubscription({
+      created: 1700000000,
+      currentPeriodEnd: 1702592000,
+      cancel_at: 1702592000,
+      canceled_at: 1701000000,
+      collection_method: "send_invoice",
+      pause_collection: { behavior: "void", resumes_at: null },
+      latest_invoice: "in_latest",
+      default_payment_method: "pm_card",
+    });
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.created", subscription)
+    );
+
+    const synced = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getSubscription, {
+        stripeSubscriptionId: subscription.id,
+      })
+    );
+    expect(synced).toMatchObject({
+      currentPeriodStart: 1700000000,
+      currentPeriodEnd: 1702592000,
+      startDate: 1700000000,
+      billingCycleAnchor: 1700000000,
+      cancelAt: 1702592000,
+      canceledAt: 1701000000,
+      collectionMethod: "send_invoice",
+      pauseCollection: { behavior: "void" },
+      latestInvoiceId: "in_latest",
+      defaultPaymentMethod: "pm_card",
+    });
+    expect(synced?.endedAt).toBeUndefined();
+
+    // `ended_at` is only set on the deleted subscription
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.deleted", {
+        ...subscription,
+        status: "canceled",
+        ended_at: 1702592000,
+      })
+    );
+    const ended = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getSubscription, {
+        stripeSubscriptionId: subscription.id,
+      })
+    );
+    expect(ended).toMatchObject({
+      status: "canceled",
+      canceledAt: 1701000000,
+      endedAt: 1702592000,
+    });
+  });
+
+  test("syncs cancellations made outside the API from the deleted event", async () => {
+    const t = initConvexTest();
+    const dunned = buildSubscription({ created: 1700000000 });
+    const portal = buildSubscription({ created: 1700000000 });
+    for (const subscription of [dunned, portal]) {
+      await sendStripeWebhook(
+        t,
+        buildStripeEvent("customer.subscription.created", subscription)
+      );
+    }
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.deleted", {
+        ...dunned,
+        status: "canceled",
+        canceled_at: 1701000000,
+        ended_at: 1701000000,
+        cancellation_details: {
+          reason: "payment_failed",
+          feedback: null,
+          comment: null,
+        },
+      })
+    );
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.deleted", {
+        ...portal,
+        status: "canceled",
+        canceled_at: 1701500000,
+        ended_at: 1701500000,
+        cancellation_details: {
+          reason: "cancellation_requested",
+          feedback: "too_expensive",
+          comment: "Over budget",
+        },
+      })
+    );
+
+    const reasons = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getCancellationReasons, {
+        from: 1700000000,
+        to: 1702000000,
+      })
+    );
+    expect(reasons).toEqual({
+      total: 2,
+      byFeedback: expect.arrayContaining([
+        { feedback: "unspecified", count: 1 },
+        { feedback: "too_expensive", count: 1 },
+      ]),
+      byReason: expect.arrayContaining([
+        { reason: "payment_failed", count: 1 },
+        { reason: "cancellation_requested", count: 1 },
+      ]),
+      comments: [
+        {
+          stripeSubscriptionId: portal.id,
+          canceledAt: 1701500000,
+          feedback: "too_expensive",
+          comment: "Over budget",
+        },
+      ],
+    });
+  });
+
+  test("syncs paused and resumed subscriptions", async () => {
+    const t = initConvexTest();
+    const subscription = buildSubscription({ created: 1700000000 });
+    const getStatus = async () =>
+      (
+        await t.run((ctx) =>
+          ctx.runQuery(components.stripe.public.getSubscription, {
+            stripeSubscriptionId: subscription.id,
+          })
+        )
+      )?.status;
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.created", subscription, {
+        created: 1700000000,
+      })
+    );
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent(
+        "customer.subscription.paused",
+        { ...subscription, status: "paused" },
+        { created: 1700000100 }
+      )
+    );
+    expect(await getStatus()).toBe("paused");
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.resumed", subscription, {
+        created: 1700000200,
+      })
+    );
+    expect(await getStatus()).toBe("active");
+  });
+
+  test("keeps an update delivered before the subscription's created event", async () => {
+    const t = initConvexTest();
+    const subscription = buildSubscription({ status: "incomplete" });
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent(
+        "customer.subscription.updated",
+        { ...subscription, status: "active" },
+        { created: 1700000100 }
+      )
+    );
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.created", subscription, {
+        created: 1700000000,
+      })
+    );
+
+    const synced = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getSubscription, {
+        stripeSubscriptionId: subscription.id,
+      })
+    );
+    expect(synced).toMatchObject({
+      status: "active",
+      stripeCustomerId: subscription.customer,
+    });
+  });
+
+  test("syncs subscription schedules", async () => {
+    const t = initConvexTest();
+    const schedule = buildSubscriptionSchedule({
+      subscription: "sub_scheduled",
+      phases: [
+        {
+          start_date: 1700000000,
+          end_date: 1702592000,
+          items: [{ price: "price_pro", quantity: 1 }],
+        },
+        {
+          start_date: 1702592000,
+          end_date: 1705184000,
+          items: [{ price: "price_basic", quantity: 1 }],
+        },
+      ] as StripeSDK.SubscriptionSchedule.Phase[],
+    });
+    const getScheduled = () =>
+      t.run((ctx) =>
+        ctx.runQuery(
+          components.stripe.public.getSubscriptionScheduleBySubscriptionId,
+          { stripeSubscriptionId: "sub_scheduled" }
+        )
+      );
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("subscription_schedule.created", schedule, {
+        created: 1700000000,
+      })
+    );
+    const synced = await getScheduled();
+    expect(synced).toMatchObject({
+      stripeScheduleId: schedule.id,
+      status: "active",
+      endBehavior: "release",
+    });
+    expect(synced?.phases[1]).toEqual({
+      startDate: 1702592000,
+      endDate: 1705184000,
+      items: [{ priceId: "price_basic", quantity: 1 }],
+    });
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent(
+        "subscription_schedule.released",
+        {
+          ...schedule,
+          status: "released",
+          subscription: null,
+          released_at: 1700000100,
+          released_subscription: "sub_scheduled",
+        },
+        { created: 1700000100 }
+      )
+    );
+    expect(await getScheduled()).toBeNull();
+    const released = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getSubscriptionSchedule, {
+        stripeScheduleId: schedule.id,
+      })
+    );
+    expect(released).toMatchObject({
+      status: "released",
+      releasedAt: 1700000100,
+      releasedSubscriptionId: "sub_scheduled",
+    });
+    expect(released?.stripeSubscriptionId).toBeUndefined();
+  });
+
+  test("syncs Stripe Entitlements features", async () => {
+    const t = initConvexTest();
+    const subscription = buildSubscription({
+      customer: "cus_features",
+      metadata: { orgId: "org_features" },
+    });
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.created", subscription)
+    );
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("entitlements.active_entitlement_summary.updated", {
+        object: "entitlements.active_entitlement_summary",
+        customer: "cus_features",
+        livemode: false,
+        entitlements: {
+          object: "list",
+          data: [{ lookup_key: "sso" }, { lookup_key: "exports" }],
+          has_more: false,
+          url: "/v1/entitlements/active_entitlements",
+        },
+      })
+    );
+
+    const sources = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getEntitlementSources, {
+        orgId: "org_features",
+      })
+    );
+    expect(sources.featureLookupKeys).toEqual(["sso", "exports"]);
+  });
+
+  test("records failed payments of a subscription invoice", async () => {
+    const t = initConvexTest();
+    const subscription = buildSubscription({ status: "past_due" });
+    const invoice = buildInvoice({
+      customer: subscription.customer,
+      attempt_count: 1,
+      next_payment_attempt: 1700086400,
+      parent: {
+        type: "subscription_details",
+        quote_details: null,
+        subscription_details: { subscription: subscription.id, metadata: {} },
+      },
+    });
+    const getHealth = () =>
+      t.run((ctx) =>
+        ctx.runQuery(components.stripe.public.getBillingHealth, {
+          stripeSubscriptionId: subscription.id,
+          gracePeriodDays: 7,
+        })
+      );
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.subscription.created", subscription)
+    );
+    await sendStripeWebhook(t, buildStripeEvent("invoice.created", invoice));
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("invoice.payment_failed", invoice)
+    );
+    expect(await getHealth()).toMatchObject({
+      state: "grace",
+      failedPaymentAttempts: 1,
+      nextPaymentAttempt: 1700086400,
+    });
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("invoice.paid", {
+        ...invoice,
+        status: "paid",
+        amount_paid: 1000,
+      })
+    );
+    expect(await getHealth()).toMatchObject({ failedPaymentAttempts: 0 });
+  });
+
+  test("syncs the product and price catalog", async () => {
+    const t = initConvexTest();
+    const product = buildProduct({ name: "Pro", description: "For teams" });
+    const price = buildPrice({
+      product: product.id,
+      unit_amount: 2500,
+      lookup_key: "pro_monthly",
+    });
+
+    await sendStripeWebhook(t, buildStripeEvent("product.created", product));
+    await sendStripeWebhook(t, buildStripeEvent("price.created", price));
+    expect(
+      await t.run((ctx) =>
+        ctx.runQuery(components.stripe.public.listProducts, {})
+      )
+    ).toMatchObject([
+      { stripeProductId: product.id, name: "Pro", description: "For teams" },
+    ]);
+    expect(
+      await t.run((ctx) =>
+        ctx.runQuery(components.stripe.public.getPrice, {
+          stripePriceId: price.id,
+        })
+      )
+    ).toMatchObject({
+      stripeProductId: product.id,
+      active: true,
+      currency: "usd",
+      unitAmount: 2500,
+      recurring: { interval: "month", intervalCount: 1 },
+      lookupKey: "pro_monthly",
+    });
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("price.updated", { ...price, active: false })
+    );
+    const listPrices = (active: boolean) =>
+      t.run((ctx) =>
+        ctx.runQuery(components.stripe.public.listPrices, {
+          stripeProductId: product.id,
+          active,
+        })
+      );
+    expect(await listPrices(true)).toEqual([]);
+    expect(await listPrices(false)).toHaveLength(1);
+
+    await sendStripeWebhook(t, buildStripeEvent("price.deleted", price));
+    expect(await listPrices(false)).toEqual([]);
+  });
+
+  test("links one-time payments to the checkout customer", async () => {
+    const t = initConvexTest();
+    const paymentIntent = buildPaymentIntent({
+      metadata: { userId: "user_1" },
+    });
+    const session = buildCheckoutSession({
+      customer: "cus_checkout",
+      payment_intent: paymentIntent.id,
+    });
+
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("payment_intent.succeeded", paymentIntent)
+    );
+    await sendStripeWebhook(
+      t,
+      buildStripeEvent("checkout.session.completed", session)
+    );
+
+    const payment = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getPayment, {
+        stripePaymentIntentId: paymentIntent.id,
+      })
+    );
+    expect(payment).toMatchObject({
+      stripeCustomerId: "cus_checkout",
+      userId: "user_1",
+      amount: 1000,
+    });
+  });
+
+  test("rejects events with an invalid signature", async () => {
+    const t = initConvexTest();
+    const response = await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.created", buildCustomer()),
+      { secret: "whsec_wrong" }
+    );
+    expect(response.status).toBe(400);
+  });
+
+  test("accepts events signed with any configured secret", async () => {
+    const t = initConvexTest();
+    const oldEvent = buildStripeEvent("customer.created", buildCustomer());
+    const newEvent = buildStripeEvent("customer.created", buildCustomer());
+
+    const oldResponse = await sendStripeWebhook(t, oldEvent, {
+      secret: PREVIOUS_WEBHOOK_SECRET,
+    });
+    const newResponse = await sendStripeWebhook(t, newEvent);
+    expect(oldResponse.status).toBe(200);
+    expect(newResponse.status).toBe(200);
+
+    const events = await t.run(async (ctx) => [
+      await ctx.runQuery(components.stripe.public.getWebhookEvent, {
+        stripeEventId: oldEvent.id,
+      }),
+      await ctx.runQuery(components.stripe.public.getWebhookEvent, {
+        stripeEventId: newEvent.id,
+      }),
+    ]);
+    expect(events.map((event) => event?.signingSecretIndex)).toEqual([0, 1]);
+  });
+
+  test("rejects events from the other mode", async () => {
+    const t = initConvexTest();
+    const customer = buildCustomer({ livemode: true });
+    const response = await sendStripeWebhook(
+      t,
+      buildStripeEvent("customer.created", customer)
+    );
+    expect(response.status).toBe(400);
+    const synced = await t.run((ctx) =>
+      ctx.runQuery(components.stripe.public.getCustomer, {
+        stripeCustomerId: customer.id,
+      })
+    );
+    expect(synced).toBeNull();
+  });
+
+  test("acknowledges duplicate deliveries without reprocessing", async () => {
+    const t = initConvexTest();
+    const event = buildStripeEvent("customer.created", buildCustomer());
+
+    await sendStripeWebhook(t, event);
+    const response = await sendStripeWebhook(t, event);
+    expect(await response.json()).toEqual({ received: true, duplicate: true });
+  });
+});
@@ -1,13 +1,17 @@
 import { httpRouter } from "convex/server";
 import { stripe } from "./stripe";
-import type Stripe from "stripe";
+import type { DataModel } from "./_generated/dataModel";
 
 const http = httpRouter();
 
-// Register Stripe webhooks with custom event handlers
-stripe.registerRoutes(http, {
+// Register Stripe webhooks with custom event handlers. Handlers receive the
+// full action ctx (runQuery, runMutation, runAction, scheduler, storage).
+stripe.registerRoutes<DataModel>(http, {
+  // Only accept events from the same mode as the secret key, so test events
+  // can't mix with live data
+  livemode: process.env.STRIPE_SECRET_KEY?.includes("_live_"),
   events: {
-    "customer.subscription.updated": async (ctx: any, event: Stripe.CustomerSubscriptionUpdatedEvent) => {
+    "customer.subscription.updated": async (ctx, event) => {
       // Example custom handler: Log subscription updates
       const subscription = event.data.object;
       console.log("🔔 Custom handler: Subscription updated!", {
@@ -17,8 +21,11 @@ stripe.registerRoutes(http, {
       
       // You can run additional logic here after the default database sync
       // For example, send a notification, update other tables, etc.
+      // await ctx.scheduler.runAfter(0, internal.emails.sendUpdate, {
+      //   subscriptionId: subscription.id,
+      // });
     },
-    "payment_intent.succeeded": async (ctx: any, event: Stripe.PaymentIntentSucceededEvent) => {
+    "payment_intent.succeeded": async (ctx, event) => {
       // Example custom handler: Log successful one-time payments
       const paymentIntent = event.data.object;
       console.log("💰 Custom handler: Payment succeeded!", {
@@ -27,7 +34,15 @@ stripe.registerRoutes(http, {
       });
     },
   },
-  onEvent: async (ctx: any, event: Stripe.Event) => {
+  onTrialWillEnd: async (ctx, { subscription, trialEnd, customer }) => {
+    // Stripe sends this three days before a trial ends
+    console.log("⏳ Trial ending soon", {
+      id: subscription.id,
+      email: customer?.email,
+      trialEnd: new Date(trialEnd * 1000).toISOString(),
+    });
+  },
+  onEvent: async (ctx, event) => {
     // Log all events for monitoring/debugging
     console.log(`📊 Event received: ${event.type}`, {
       id: event.id,
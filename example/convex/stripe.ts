@@ -65,6 +65,8 @@ export const getLiveData = query({
 /**
  * Create a checkout session for a subscription.
  * This would typically be called from your app when a user clicks "Subscribe".
+ * The price is given by its lookup key, so the same code works in test and
+ * live mode.
  * 
  * ⚠️ SECURITY: Add authentication check before using in production:
  * ```ts
@@ -74,12 +76,12 @@ export const getLiveData = query({
  */
 export const createSubscriptionCheckout = action({
   args: {
-    priceId: v.string(),
+    lookupKey: v.string(),
     customerId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     return await stripe.createCheckoutSession(ctx, {
-      priceId: args.priceId,
+      lookupKey: args.lookupKey,
       customerId: args.customerId,
       mode: "subscription",
       successUrl: "http://localhost:5173/",
@@ -106,11 +108,11 @@ export const createSubscriptionCheckout = action({
  */
 export const createPaymentCheckout = action({
   args: {
-    priceId: v.string(),
+    lookupKey: v.string(),
   },
   handler: async (ctx, args) => {
     return await stripe.createCheckoutSession(ctx, {
-      priceId: args.priceId,
+      lookupKey: args.lookupKey,
       mode: "payment",
       successUrl: "http://localhost:5173/",
       cancelUrl: "http://localhost:5173/",
@@ -211,6 +213,21 @@ export const cancelSubscription = action({
   },
 });
 
+/**
+ * Undo a cancellation scheduled at period end.
+ * ⚠️ SECURITY: Add authentication and authorization checks before using in production.
+ */
+export const reactivateSubscription = action({
+  args: {
+    subscriptionId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await stripe.reactivateSubscription(ctx, {
+      stripeSubscriptionId: args.subscriptionId,
+    });
+  },
+});
+
 // ============================================================================
 // EXAMPLE: Customer portal
 // ============================================================================
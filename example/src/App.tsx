@@ -5,8 +5,8 @@ import "./App.css";
 
 function App() {
   const [activeTab, setActiveTab] = useState<"checkout" | "subscriptions" | "customers" | "database">("database");
-  const [oneTimePriceId, setOneTimePriceId] = useState("price_1RYvhpGadJM86FzJSoP8lfYO");
-  const [subscriptionPriceId, setSubscriptionPriceId] = useState("price_1RnWvAGadJM86FzJYbJrT5M1");
+  const [oneTimeLookupKey, setOneTimeLookupKey] = useState("one_time");
+  const [subscriptionLookupKey, setSubscriptionLookupKey] = useState("pro_monthly");
   const [customerId, setCustomerId] = useState("");
   const [subscriptionId, setSubscriptionId] = useState("");
   const [seatCount, setSeatCount] = useState(1);
@@ -37,7 +37,7 @@ function App() {
 
   const handleCreateSubscription = async () => {
     try {
-      const result = await createSubscriptionCheckout({ priceId: subscriptionPriceId, customerId: customerId || undefined });
+      const result = await createSubscriptionCheckout({ lookupKey: subscriptionLookupKey, customerId: customerId || undefined });
       setCheckoutResult(result);
     } catch (error) {
       console.error("Error creating subscription:", error);
@@ -47,7 +47,7 @@ function App() {
 
   const handleCreatePayment = async () => {
     try {
-      const result = await createPaymentCheckout({ priceId: oneTimePriceId });
+      const result = await createPaymentCheckout({ lookupKey: oneTimeLookupKey });
       setCheckoutResult(result);
     } catch (error) {
       console.error("Error creating payment:", error);
@@ -300,12 +300,12 @@ function App() {
             <div className="card">
               <h3>Subscription Checkout</h3>
               <div className="form-group">
-                <label>Price ID:</label>
+                <label>Price lookup key:</label>
                 <input
                   type="text"
-                  value={subscriptionPriceId}
-                  onChange={(e) => setSubscriptionPriceId(e.target.value)}
-                  placeholder="price_1RnWvAGadJM86FzJYbJrT5M1"
+                  value={subscriptionLookupKey}
+                  onChange={(e) => setSubscriptionLookupKey(e.target.value)}
+                  placeholder="pro_monthly"
                 />
               </div>
               <div className="form-group">
@@ -325,12 +325,12 @@ function App() {
             <div className="card">
               <h3>One-Time Payment</h3>
               <div className="form-group">
-                <label>Price ID:</label>
+                <label>Price lookup key:</label>
                 <input
                   type="text"
-                  value={oneTimePriceId}
-                  onChange={(e) => setOneTimePriceId(e.target.value)}
-                  placeholder=""
+                  value={oneTimeLookupKey}
+                  onChange={(e) => setOneTimeLookupKey(e.target.value)}
+                  placeholder="one_time"
                 />
               </div>
               <button onClick={handleCreatePayment} className="btn-primary">
@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
-import { Stripe } from "./index.js";
+import { Stripe, vSubscriptionSyncArgs } from "./index.js";
+import type { RegisterRoutesConfig } from "./index.js";
 import type { DataModelFromSchemaDefinition } from "convex/server";
 import {
   anyApi,
@@ -14,8 +15,17 @@ import type {
   QueryBuilder,
 } from "convex/server";
 import { v } from "convex/values";
+import type StripeSDK from "stripe";
 import { defineSchema } from "convex/server";
 import { components, initConvexTest } from "./setup.test.js";
+import {
+  buildPrice,
+  buildProduct,
+  buildStripeEvent,
+  buildSubscription,
+  buildSubscriptionItem,
+  buildSubscriptionSchedule,
+} from "../test.js";
 
 // The schema for the tests
 const schema = defineSchema({});
@@ -26,6 +36,454 @@ const action = actionGeneric as ActionBuilder<DataModel, "public">;
 
 const stripe = new Stripe(components.stripe);
 
+// A fake Stripe SDK client so actions can run without the network
+const portalSessionCalls: unknown[] = [];
+const checkoutSessionCalls: StripeSDK.Checkout.SessionCreateParams[] = [];
+const fakeSubscriptions = new Map<string, StripeSDK.Subscription>();
+const findFakeItem = (id: string) =>
+  [...fakeSubscriptions.values()]
+    .flatMap((subscription) => subscription.items.data)
+    .find((item) => item.id === id)!;
+const changeFakeItems = (
+  id: string,
+  change: (items: StripeSDK.SubscriptionItem[]) => StripeSDK.SubscriptionItem[]
+) => {
+  const current = fakeSubscriptions.get(id) ?? buildSubscription({ id });
+  fakeSubscriptions.set(id, {
+    ...current,
+    items: { ...current.items, data: change(current.items.data) },
+  });
+};
+const invoicePreviewCalls: StripeSDK.InvoiceCreatePreviewParams[] = [];
+const scheduleUpdateCalls: StripeSDK.SubscriptionScheduleUpdateParams[] = [];
+const fakeSchedules = new Map<string, StripeSDK.SubscriptionSchedule>();
+const priceListCalls: StripeSDK.PriceListParams[] = [];
+const fakeStripePrices = [
+  buildPrice({ id: "price_stripe_yearly", lookup_key: "pro_yearly" }),
+];
+const fakeStripeClient = {
+  billingPortal: {
+    sessions: {
+      create: async (params: unknown) => {
+        portalSessionCalls.push(params);
+        return { url: "https://billing.stripe.test/session" };
+      },
+    },
+  },
+  checkout: {
+    sessions: {
+      create: async (params: StripeSDK.Checkout.SessionCreateParams) => {
+        checkoutSessionCalls.push(params);
+        return { id: "cs_fake", url: "https://checkout.stripe.test/session" };
+      },
+    },
+  },
+  subscriptions: {
+    retrieve: async (id: string) =>
+      fakeSubscriptions.get(id) ?? buildSubscription({ id }),
+    update: async (id: string, params: StripeSDK.SubscriptionUpdateParams) => {
+      const current = fakeSubscriptions.get(id) ?? buildSubscription({ id });
+      const subscription = {
+        ...current,
+        pause_collection: params.pause_collection || null,
+        ...(params.cancel_at_period_end !== undefined && {
+          cancel_at_period_end: params.cancel_at_period_end,
+          cancel_at: params.cancel_at_period_end
+            ? current.items.data[0].current_period_end
+            : null,
+        }),
+        ...(params.cancel_at !== undefined && {
+          cancel_at: params.cancel_at || null,
+        }),
+        ...(params.cancellation_details && {
+          cancellation_details: {
+            reason: "cancellation_requested",
+            feedback: params.cancellation_details.feedback || null,
+            comment: params.cancellation_details.comment || null,
+          },
+        }),
+        ...(params.items && {
+          items: {
+            ...current.items,
+            data: current.items.data.map((item) => {
+              const change = params.items?.find(({ id }) => id === item.id);
+              return {
+                ...item,
+                ...(change?.price && {
+                  price: { ...item.price, id: change.price },
+                }),
+                ...(change?.quantity !== undefined && {
+                  quantity: change.quantity,
+                }),
+              };
+            }),
+          },
+        }),
+      } as StripeSDK.Subscription;
+      fakeSubscriptions.set(id, subscription);
+      return subscription;
+    },
+  },
+  subscriptionSchedules: {
+    create: async (params: StripeSDK.SubscriptionScheduleCreateParams) => {
+      const schedule = buildSubscriptionSchedule({
+        id: "sub_sched_fake",
+        customer: "cus_sched",
+        subscription: params.from_subscription,
+        created: 1700000000,
+      });
+      fakeSchedules.set(schedule.id, schedule);
+      return schedule;
+    },
+    retrieve: async (id: string) => fakeSchedules.get(id),
+    update: async (
+      id: string,
+      params: StripeSDK.SubscriptionScheduleUpdateParams
+    ) => {
+      scheduleUpdateCalls.push(params);
+      const current = fakeSchedules.get(id)!;
+      const schedule = {
+        ...current,
+        end_behavior: params.end_behavior ?? current.end_behavior,
+        phases: (params.phases ?? []).map((phase, i) => ({
+          start_date: phase.start_date ?? current.phases[i - 1]?.end_date,
+          end_date: phase.end_date ?? 1705184000,
+          items: phase.items,
+        })),
+      } as StripeSDK.SubscriptionSchedule;
+      fakeSchedules.set(id, schedule);
+      return schedule;
+    },
+    release: async (id: string) => {
+      const schedule = {
+        ...fakeSchedules.get(id)!,
+        status: "released",
+        subscription: null,
+        released_at: 1700000100,
+        released_subscription: "sub_deferred",
+      } as StripeSDK.SubscriptionSchedule;
+      fakeSchedules.set(id, schedule);
+      return schedule;
+    },
+  },
+  invoices: {
+    createPreview: async (params: StripeSDK.InvoiceCreatePreviewParams) => {
+      invoicePreviewCalls.push(params);
+      return {
+        currency: "usd",
+        subtotal: 1500,
+        total: 1500,
+        amount_due: 1500,
+        lines: {
+          data: [
+            {
+              description: "Unused time on Basic",
+              amount: -500,
+              period: { start: 1700000000, end: 1702592000 },
+              parent: { subscription_item_details: { proration: true } },
+            },
+            {
+              description: "Remaining time on Pro",
+              amount: 1000,
+              period: { start: 1700000000, end: 1702592000 },
+              parent: { subscription_item_details: { proration: true } },
+            },
+            {
+              description: "1 × Pro",
+              amount: 1000,
+              period: { start: 1702592000, end: 1705184000 },
+              parent: { subscription_item_details: { proration: false } },
+            },
+          ],
+        },
+      };
+    },
+  },
+  prices: {
+    list: async (params: StripeSDK.PriceListParams) => {
+      priceListCalls.push(params);
+      return {
+        data: fakeStripePrices.filter(
+          (price) =>
+            price.active &&
+            price.lookup_key !== null &&
+            params.lookup_keys?.includes(price.lookup_key)
+        ),
+      };
+    },
+  },
+  subscriptionItems: {
+    create: async (params: StripeSDK.SubscriptionItemCreateParams) => {
+      const item = buildSubscriptionItem({
+        id: "si_added",
+        subscription: params.subscription,
+        priceId: params.price,
+        quantity: params.quantity,
+      });
+      changeFakeItems(params.subscription, (items) => [...items, item]);
+      return item;
+    },
+    retrieve: async (id: string) => findFakeItem(id),
+    update: async (
+      id: string,
+      params: StripeSDK.SubscriptionItemUpdateParams
+    ) => {
+      const current = findFakeItem(id);
+      const item = {
+        ...current,
+        ...(params.price && { price: { ...current.price, id: params.price } }),
+        ...(params.quantity !== undefined && { quantity: params.quantity }),
+      };
+      changeFakeItems(current.subscription, (items) =>
+        items.map((other) => (other.id === id ? item : other))
+      );
+      return item;
+    },
+    del: async (id: string) => {
+      changeFakeItems(findFakeItem(id).subscription, (items) =>
+        items.filter((item) => item.id !== id)
+      );
+      return { id, object: "subscription_item", deleted: true };
+    },
+  },
+} as unknown as StripeSDK;
+const stripeWithFakeClient = new Stripe(components.stripe, {
+  createStripeClient: () => fakeStripeClient,
+});
+
+const stripeWithEntitlements = new Stripe(components.stripe, {
+  entitlements: {
+    price_pro: { features: ["exports"], limits: { projects: 10 } },
+    prod_addon: { features: ["audit_log"], limits: { projects: 25 } },
+    pro_monthly: { features: ["api_access"] },
+  },
+});
+
+export const testSyncEntitledSubscription = mutation({
+  args: { status: v.string() },
+  handler: async (ctx, args) => {
+    await ctx.runMutation(components.stripe.public.handleSubscriptionCreated, {
+      stripeSubscriptionId: "sub_entitled",
+      stripeCustomerId: "cus_entitled",
+      status: args.status,
+      currentPeriodEnd: 1700000000,
+      cancelAtPeriodEnd: false,
+      priceId: "price_pro",
+      lookupKey: "pro_monthly",
+      metadata: { orgId: "org_entitled" },
+      items: [
+        {
+          stripeSubscriptionItemId: "si_pro",
+          priceId: "price_pro",
+          productId: "prod_pro",
+          lookupKey: "pro_monthly",
+          currentPeriodStart: 1690000000,
+          currentPeriodEnd: 1700000000,
+        },
+        {
+          stripeSubscriptionItemId: "si_addon",
+          priceId: "price_addon",
+          productId: "prod_addon",
+          currentPeriodStart: 1690000000,
+          currentPeriodEnd: 1700000000,
+        },
+      ],
+    });
+    await ctx.runMutation(components.stripe.public.handleSubscriptionUpdated, {
+      stripeSubscriptionId: "sub_entitled",
+      status: args.status,
+      currentPeriodEnd: 1700000000,
+      cancelAtPeriodEnd: false,
+    });
+    await ctx.runMutation(
+      components.stripe.public.handleActiveEntitlementSummaryUpdated,
+      { stripeCustomerId: "cus_entitled", featureLookupKeys: ["sso"] }
+    );
+  },
+});
+
+export const testGetEntitlements = query({
+  args: { orgId: v.string() },
+  handler: async (ctx, args) => {
+    return {
+      entitlements: await stripeWithEntitlements.getEntitlements(ctx, args),
+      hasExports: await stripeWithEntitlements.hasFeature(ctx, {
+        orgId: args.orgId,
+        feature: "exports",
+      }),
+    };
+  },
+});
+
+// A fake Stripe catalog for syncCatalog
+const catalogProducts = new Map<string, StripeSDK.Product>();
+const catalogPrices = new Map<string, StripeSDK.Price>();
+let nextCatalogPrice = 0;
+const fakeCatalogClient = {
+  products: {
+    retrieve: async (id: string) => {
+      const product = catalogProducts.get(id);
+      if (!product) {
+        throw Object.assign(new Error(`No such product: '${id}'`), {
+          code: "resource_missing",
+        });
+      }
+      return product;
+    },
+    create: async (params: StripeSDK.ProductCreateParams) => {
+      const product = buildProduct({
+        id: params.id,
+        name: params.name,
+        description: params.description ?? null,
+        metadata: (params.metadata ?? {}) as StripeSDK.Metadata,
+      });
+      catalogProducts.set(product.id, product);
+      return product;
+    },
+    update: async (id: string, params: StripeSDK.ProductUpdateParams) => {
+      const current = catalogProducts.get(id)!;
+      const product = {
+        ...current,
+        name: params.name ?? current.name,
+        description: params.description ?? current.description,
+        metadata: { ...current.metadata, ...params.metadata },
+        active: params.active ?? current.active,
+      } as StripeSDK.Product;
+      catalogProducts.set(id, product);
+      return product;
+    },
+  },
+  prices: {
+    list: (params: StripeSDK.PriceListParams) => {
+      const data = [...catalogPrices.values()].filter(
+        (price) =>
+          (!params.lookup_keys ||
+            params.lookup_keys.includes(price.lookup_key ?? "")) &&
+          (!params.product || price.product === params.product) &&
+          (params.active === undefined || price.active === params.active)
+      );
+      return Object.assign(Promise.resolve({ data }), {
+        autoPagingToArray: async () => data,
+      });
+    },
+    create: async (params: StripeSDK.PriceCreateParams) => {
+      if (params.transfer_lookup_key) {
+        for (const price of catalogPrices.values()) {
+          if (price.lookup_key === params.lookup_key) {
+            catalogPrices.set(price.id, { ...price, lookup_key: null });
+          }
+        }
+      }
+      nextCatalogPrice++;
+      const price = buildPrice({
+        id: `price_catalog_${nextCatalogPrice}`,
+        product: params.product,
+        currency: params.currency,
+        unit_amount: params.unit_amount ?? null,
+        type: params.recurring ? "recurring" : "one_time",
+        recurring: params.recurring
+          ? ({
+              interval: params.recurring.interval,
+              interval_count: params.recurring.interval_count ?? 1,
+            } as StripeSDK.Price.Recurring)
+          : null,
+        lookup_key: params.lookup_key ?? null,
+        nickname: params.nickname ?? null,
+        metadata: (params.metadata ?? {}) as StripeSDK.Metadata,
+      });
+      catalogPrices.set(price.id, price);
+      return price;
+    },
+    update: async (id: string, params: StripeSDK.PriceUpdateParams) => {
+      const current = catalogPrices.get(id)!;
+      const price = {
+        ...current,
+        nickname: params.nickname ?? current.nickname,
+        metadata: { ...current.metadata, ...params.metadata },
+        active: params.active ?? current.active,
+      } as StripeSDK.Price;
+      catalogPrices.set(id, price);
+      return price;
+    },
+  },
+} as unknown as StripeSDK;
+const stripeWithCatalog = new Stripe(components.stripe, {
+  createStripeClient: () => fakeCatalogClient,
+  catalog: {
+    products: [
+      {
+        id: "prod_pro",
+        name: "Pro",
+        prices: [
+          {
+            lookupKey: "pro_monthly",
+            unitAmount: 1200,
+            currency: "usd",
+            recurring: { interval: "month" },
+          },
+          {
+            lookupKey: "pro_yearly",
+            unitAmount: 10000,
+            currency: "usd",
+            recurring: { interval: "year" },
+            nickname: "Yearly",
+          },
+        ],
+      },
+      {
+        id: "prod_team",
+        name: "Team",
+        metadata: { tier: "team" },
+        prices: [
+          {
+            lookupKey: "team_monthly",
+            unitAmount: 5000,
+            currency: "usd",
+            recurring: { interval: "month" },
+          },
+        ],
+      },
+    ],
+  },
+});
+
+export const testSyncCatalog = action({
+  args: { dryRun: v.boolean() },
+  handler: async (ctx, args) => {
+    return await stripeWithCatalog.syncCatalog(ctx, { dryRun: args.dryRun });
+  },
+});
+
+export const testSyncLookupKeyPrice = mutation({
+  args: {
+    stripePriceId: v.string(),
+    lookupKey: v.string(),
+    livemode: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.runMutation(components.stripe.public.handlePriceUpdated, {
+      stripePriceId: args.stripePriceId,
+      stripeProductId: "prod_lookup",
+      active: true,
+      currency: "usd",
+      unitAmount: 2000,
+      type: "recurring",
+      lookupKey: args.lookupKey,
+      livemode: args.livemode,
+    });
+  },
+});
+
+export const testListPrices = query({
+  args: { stripeProductId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.listPrices(ctx, {
+      stripeProductId: args.stripeProductId,
+      active: true,
+    });
+  },
+});
+
 export const testGetCustomer = query({
   args: { stripeCustomerId: v.string() },
   handler: async (ctx, args) => {
@@ -61,11 +519,448 @@ export const testUpdateSubscriptionMetadata = mutation({
   },
 });
 
+let customerCreatedCalls = 0;
+const webhookConfig: RegisterRoutesConfig = {
+  events: {
+    "customer.created": async () => {
+      customerCreatedCalls++;
+      if (customerCreatedCalls === 1) {
+        throw new Error("Temporary failure");
+      }
+    },
+  },
+  async: {
+    processor: anyApi["index.test"].testProcessStripeEvent,
+    maxAttempts: 3,
+    initialBackoffMs: 1000,
+  },
+};
+
+export const testProcessStripeEvent = stripe.webhookProcessor(webhookConfig);
+
+export const testEnqueueWebhookEvent = mutation({
+  args: { stripeEventId: v.string(), type: v.string(), payload: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.runMutation(components.stripe.public.enqueueWebhookEvent, {
+      stripeEventId: args.stripeEventId,
+      type: args.type,
+      livemode: false,
+      payload: args.payload,
+    });
+  },
+});
+
+export const testGetWebhookEvent = query({
+  args: { stripeEventId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.getWebhookEvent(ctx, args.stripeEventId);
+  },
+});
+
+export const testRecordFailedEvent = mutation({
+  args: { stripeEventId: v.string(), type: v.string(), payload: v.string() },
+  handler: async (ctx, args) => {
+    await ctx.runMutation(components.stripe.public.recordWebhookEvent, {
+      stripeEventId: args.stripeEventId,
+      type: args.type,
+      livemode: false,
+      payload: args.payload,
+    });
+    await ctx.runMutation(components.stripe.public.markEventFailed, {
+      stripeEventId: args.stripeEventId,
+      error: "Handler bug",
+      errorStack: "Error: Handler bug\n    at handler",
+    });
+  },
+});
+
+// An event whose first attempt is still running
+export const testRecordProcessingEvent = mutation({
+  args: { stripeEventId: v.string(), type: v.string(), payload: v.string() },
+  handler: async (ctx, args) => {
+    await ctx.runMutation(components.stripe.public.recordWebhookEvent, {
+      stripeEventId: args.stripeEventId,
+      type: args.type,
+      livemode: false,
+      payload: args.payload,
+    });
+  },
+});
+
+export const testReplayEvent = action({
+  args: { stripeEventId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.replayEvent(ctx, args.stripeEventId);
+  },
+});
+
+export const testListFailedEvents = query({
+  args: {},
+  handler: async (ctx) => {
+    return await stripe.listFailedEvents(ctx);
+  },
+});
+
+const replayedEvents: string[] = [];
+export const testReplayFailedEvents = action({
+  args: {},
+  handler: async (ctx) => {
+    return await stripe.replayFailedEvents(ctx, {
+      onEvent: async (_ctx, event) => {
+        replayedEvents.push(event.id);
+      },
+    });
+  },
+});
+
+export const testCreatePortalSession = action({
+  args: { customerId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.createCustomerPortalSession(ctx, {
+      customerId: args.customerId,
+      returnUrl: "https://example.com/account",
+    });
+  },
+});
+
+export const testCreateTrialCheckout = action({
+  args: { trialPeriodDays: v.number() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.createCheckoutSession(ctx, {
+      priceId: "price_trial",
+      mode: "subscription",
+      successUrl: "https://example.com/success",
+      cancelUrl: "https://example.com/cancel",
+      trialPeriodDays: args.trialPeriodDays,
+    });
+  },
+});
+
+export const testLookupKeyCheckout = action({
+  args: { lookupKey: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.createCheckoutSession(ctx, {
+      lookupKey: args.lookupKey,
+      mode: "subscription",
+      successUrl: "https://example.com/success",
+      cancelUrl: "https://example.com/cancel",
+    });
+  },
+});
+
+export const testPauseSubscription = action({
+  args: { stripeSubscriptionId: v.string(), resumesAt: v.number() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.pauseSubscription(ctx, {
+      stripeSubscriptionId: args.stripeSubscriptionId,
+      behavior: "keep_as_draft",
+      resumesAt: args.resumesAt,
+    });
+  },
+});
+
+export const testResumeSubscription = action({
+  args: { stripeSubscriptionId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.resumeSubscription(ctx, {
+      stripeSubscriptionId: args.stripeSubscriptionId,
+    });
+  },
+});
+
+export const testChangeSubscriptionPrice = action({
+  args: {
+    stripeSubscriptionId: v.string(),
+    newPriceId: v.optional(v.string()),
+    newLookupKey: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.changeSubscriptionPrice(ctx, {
+      stripeSubscriptionId: args.stripeSubscriptionId,
+      newPriceId: args.newPriceId,
+      newLookupKey: args.newLookupKey,
+      prorationBehavior: "always_invoice",
+    });
+  },
+});
+
+export const testPreviewSubscriptionChange = action({
+  args: { stripeSubscriptionId: v.string(), newPriceId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.previewSubscriptionChange(ctx, {
+      stripeSubscriptionId: args.stripeSubscriptionId,
+      newPriceId: args.newPriceId,
+    });
+  },
+});
+
+export const testCancelSubscription = action({
+  args: { stripeSubscriptionId: v.string(), cancelAt: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.cancelSubscription(ctx, {
+      stripeSubscriptionId: args.stripeSubscriptionId,
+      cancelAt: args.cancelAt,
+      cancellationDetails: {
+        feedback: "too_expensive",
+        comment: "Over budget",
+      },
+    });
+  },
+});
+
+export const testReactivateSubscription = action({
+  args: { stripeSubscriptionId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.reactivateSubscription(ctx, {
+      stripeSubscriptionId: args.stripeSubscriptionId,
+    });
+  },
+});
+
+export const testScheduleDowngrade = action({
+  args: { stripeSubscriptionId: v.string(), priceId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.createSubscriptionSchedule(ctx, {
+      stripeSubscriptionId: args.stripeSubscriptionId,
+      phases: [{ items: [{ priceId: args.priceId }] }],
+    });
+  },
+});
+
+export const testReleaseSubscriptionSchedule = action({
+  args: { stripeScheduleId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.releaseSubscriptionSchedule(ctx, {
+      stripeScheduleId: args.stripeScheduleId,
+    });
+  },
+});
+
+export const testGetSubscriptionScheduleBySubscriptionId = query({
+  args: { stripeSubscriptionId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.getSubscriptionScheduleBySubscriptionId(
+      ctx,
+      args.stripeSubscriptionId
+    );
+  },
+});
+
+export const testAddSubscriptionItem = action({
+  args: { stripeSubscriptionId: v.string(), priceId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.addSubscriptionItem(ctx, {
+      stripeSubscriptionId: args.stripeSubscriptionId,
+      priceId: args.priceId,
+      quantity: 2,
+    });
+  },
+});
+
+export const testUpdateSubscriptionItem = action({
+  args: { stripeSubscriptionItemId: v.string(), quantity: v.number() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.updateSubscriptionItem(ctx, {
+      stripeSubscriptionItemId: args.stripeSubscriptionItemId,
+      priceId: "price_seats",
+      quantity: args.quantity,
+    });
+  },
+});
+
+export const testRemoveSubscriptionItem = action({
+  args: { stripeSubscriptionItemId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.removeSubscriptionItem(ctx, {
+      stripeSubscriptionItemId: args.stripeSubscriptionItemId,
+      clearUsage: true,
+    });
+  },
+});
+
+export const testUpdateSubscriptionQuantity = action({
+  args: { stripeSubscriptionId: v.string(), quantity: v.number() },
+  handler: async (ctx, args) => {
+    return await stripeWithFakeClient.updateSubscriptionQuantity(ctx, args);
+  },
+});
+
+export const testListSubscriptionItems = query({
+  args: { stripeSubscriptionId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.listSubscriptionItems(ctx, args.stripeSubscriptionId);
+  },
+});
+
+const handlerCalls: string[] = [];
+const handlerModesConfig: RegisterRoutesConfig = {
+  events: {
+    "customer.created": { mode: "skip" },
+    "customer.subscription.deleted": {
+      mode: "replace",
+      handler: async (_ctx, event, defaultHandler) => {
+        handlerCalls.push("replace");
+        // Archived subscriptions keep their status
+        if (event.data.object.metadata.archived !== "true") {
+          await defaultHandler();
+        }
+      },
+    },
+  },
+  onEvent: async () => {
+    handlerCalls.push("onEvent");
+  },
+};
+
+export const testReplayWithHandlerModes = action({
+  args: { stripeEventId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.replayEvent(
+      ctx,
+      args.stripeEventId,
+      handlerModesConfig
+    );
+  },
+});
+
+// Handlers get the app's action ctx, typed with its data model
+const actionCtxConfig: RegisterRoutesConfig<DataModel> = {
+  events: {
+    "customer.created": async (ctx, event) => {
+      const customer = await ctx.runQuery(testApi.testGetCustomer, {
+        stripeCustomerId: event.data.object.id,
+      });
+      handlerCalls.push(`synced:${customer?.email}`);
+      await ctx.scheduler.runAfter(0, testApi.testCreateSubscription, {
+        stripeSubscriptionId: `sub_for_${event.data.object.id}`,
+      });
+    },
+  },
+};
+
+export const testReplayWithActionCtx = action({
+  args: { stripeEventId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.replayEvent(ctx, args.stripeEventId, actionCtxConfig);
+  },
+});
+
+// App mutation that runs in the same transaction as the subscription sync
+const syncedPlans: string[] = [];
+export const testSubscriptionSync = mutation({
+  args: vSubscriptionSyncArgs,
+  handler: async (_ctx, args) => {
+    if (args.subscription.metadata.failSync === "true") {
+      throw new Error("App sync failed");
+    }
+    syncedPlans.push(
+      `${args.eventType ?? "api"}:${args.subscription.stripeSubscriptionId}:${args.subscription.status}`
+    );
+  },
+});
+
+const stripeWithSyncHook = new Stripe(components.stripe, {
+  createStripeClient: () => fakeStripeClient,
+  onSubscriptionSync: anyApi["index.test"].testSubscriptionSync,
+});
+
+export const testCancelWithSyncHook = action({
+  args: { stripeSubscriptionId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripeWithSyncHook.cancelSubscription(ctx, args);
+  },
+});
+
+const syncHookConfig: RegisterRoutesConfig = {
+  onSubscriptionSync: anyApi["index.test"].testSubscriptionSync,
+};
+
+export const testReplayWithSyncHook = action({
+  args: { stripeEventId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.replayEvent(ctx, args.stripeEventId, syncHookConfig);
+  },
+});
+
+const trialsEnding: string[] = [];
+const trialConfig: RegisterRoutesConfig = {
+  onTrialWillEnd: async (_ctx, trial) => {
+    trialsEnding.push(
+      `${trial.subscription.id}:${trial.trialEnd}:${trial.customer?.email}`
+    );
+  },
+};
+
+export const testReplayWithTrialHook = action({
+  args: { stripeEventId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.replayEvent(ctx, args.stripeEventId, trialConfig);
+  },
+});
+
+export const testCreateSubscription = mutation({
+  args: { stripeSubscriptionId: v.string() },
+  handler: async (ctx, args) => {
+    await ctx.runMutation(components.stripe.public.handleSubscriptionCreated, {
+      stripeSubscriptionId: args.stripeSubscriptionId,
+      stripeCustomerId: "cus_modes",
+      status: "active",
+      currentPeriodEnd: 1700000000,
+      cancelAtPeriodEnd: false,
+      priceId: "price_modes",
+    });
+  },
+});
+
+export const testGetSubscription = query({
+  args: { stripeSubscriptionId: v.string() },
+  handler: async (ctx, args) => {
+    return await stripe.getSubscription(ctx, args.stripeSubscriptionId);
+  },
+});
+
 const testApi: ApiFromModules<{
   fns: {
     testGetCustomer: typeof testGetCustomer;
     testCreateOrUpdateCustomer: typeof testCreateOrUpdateCustomer;
     testUpdateSubscriptionMetadata: typeof testUpdateSubscriptionMetadata;
+    testProcessStripeEvent: typeof testProcessStripeEvent;
+    testEnqueueWebhookEvent: typeof testEnqueueWebhookEvent;
+    testGetWebhookEvent: typeof testGetWebhookEvent;
+    testRecordFailedEvent: typeof testRecordFailedEvent;
+    testListFailedEvents: typeof testListFailedEvents;
+    testReplayFailedEvents: typeof testReplayFailedEvents;
+    testRecordProcessingEvent: typeof testRecordProcessingEvent;
+    testReplayEvent: typeof testReplayEvent;
+    testCreatePortalSession: typeof testCreatePortalSession;
+    testCreateTrialCheckout: typeof testCreateTrialCheckout;
+    testLookupKeyCheckout: typeof testLookupKeyCheckout;
+    testPauseSubscription: typeof testPauseSubscription;
+    testResumeSubscription: typeof testResumeSubscription;
+    testChangeSubscriptionPrice: typeof testChangeSubscriptionPrice;
+    testPreviewSubscriptionChange: typeof testPreviewSubscriptionChange;
+    testCancelSubscription: typeof testCancelSubscription;
+    testReactivateSubscription: typeof testReactivateSubscription;
+    testScheduleDowngrade: typeof testScheduleDowngrade;
+    testReleaseSubscriptionSchedule: typeof testReleaseSubscriptionSchedule;
+    testGetSubscriptionScheduleBySubscriptionId: typeof testGetSubscriptionScheduleBySubscriptionId;
+    testAddSubscriptionItem: typeof testAddSubscriptionItem;
+    testUpdateSubscriptionItem: typeof testUpdateSubscriptionItem;
+    testRemoveSubscriptionItem: typeof testRemoveSubscriptionItem;
+    testUpdateSubscriptionQuantity: typeof testUpdateSubscriptionQuantity;
+    testListSubscriptionItems: typeof testListSubscriptionItems;
+    testReplayWithHandlerModes: typeof testReplayWithHandlerModes;
+    testReplayWithActionCtx: typeof testReplayWithActionCtx;
+    testReplayWithSyncHook: typeof testReplayWithSyncHook;
+    testCancelWithSyncHook: typeof testCancelWithSyncHook;
+    testReplayWithTrialHook: typeof testReplayWithTrialHook;
+    testCreateSubscription: typeof testCreateSubscription;
+    testGetSubscription: typeof testGetSubscription;
+    testSyncCatalog: typeof testSyncCatalog;
+    testListPrices: typeof testListPrices;
+    testSyncLookupKeyPrice: typeof testSyncLookupKeyPrice;
+    testSyncEntitledSubscription: typeof testSyncEntitledSubscription;
+    testGetEntitlements: typeof testGetEntitlements;
   };
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
 }>["fns"] = anyApi["index.test"] as any;
@@ -91,6 +986,523 @@ describe("Stripe thick client", () => {
     expect(c.options?.STRIPE_WEBHOOK_SECRET).toBe("whsec_123");
   });
 
+  test("should accept several webhook secrets", async () => {
+    const c = new Stripe(components.stripe, {
+      STRIPE_WEBHOOK_SECRET: ["whsec_old", "whsec_new"],
+    });
+    expect(c.options?.STRIPE_WEBHOOK_SECRET).toEqual([
+      "whsec_old",
+      "whsec_new",
+    ]);
+  });
+
+  test("should create one cached Stripe SDK client from options", async () => {
+    const createStripeClient = vi.fn(() => fakeStripeClient);
+    const c = new Stripe(components.stripe, {
+      STRIPE_SECRET_KEY: "rk_test_restricted",
+      apiVersion: "2025-09-30.clover",
+      createStripeClient,
+    });
+    expect(c.getStripeClient()).toBe(fakeStripeClient);
+    expect(c.getStripeClient()).toBe(fakeStripeClient);
+    expect(createStripeClient).toHaveBeenCalledTimes(1);
+    expect(createStripeClient).toHaveBeenCalledWith({
+      apiKey: "rk_test_restricted",
+      apiVersion: "2025-09-30.clover",
+    });
+  });
+
+  test("should use an injected Stripe client for API calls", async () => {
+    const t = initConvexTest();
+    const session = await t.action(testApi.testCreatePortalSession, {
+      customerId: "cus_portal",
+    });
+    expect(session.url).toBe("https://billing.stripe.test/session");
+    expect(portalSessionCalls).toEqual([
+      { customer: "cus_portal", return_url: "https://example.com/account" },
+    ]);
+  });
+
+  test("creates a checkout session with a trial period", async () => {
+    const t = initConvexTest();
+    await t.action(testApi.testCreateTrialCheckout, { trialPeriodDays: 14 });
+    expect(checkoutSessionCalls.at(-1)?.subscription_data).toEqual({
+      trial_period_days: 14,
+    });
+  });
+
+  test("calls onTrialWillEnd with the synced customer", async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+    const t = initConvexTest();
+    await t.mutation(testApi.testCreateOrUpdateCustomer, {
+      stripeCustomerId: "cus_trial",
+      email: "trial@example.com",
+    });
+    await t.mutation(testApi.testCreateSubscription, {
+      stripeSubscriptionId: "sub_trial",
+    });
+    const subscription = buildSubscription({
+      id: "sub_trial",
+      customer: "cus_trial",
+      status: "trialing",
+      trial_start: 1699000000,
+      trial_end: 1700000000,
+    });
+    const event = buildStripeEvent(
+      "customer.subscription.trial_will_end",
+      subscription
+    );
+    await t.mutation(testApi.testRecordFailedEvent, {
+      stripeEventId: event.id,
+      type: event.type,
+      payload: JSON.stringify(event),
+    });
+
+    await t.action(testApi.testReplayWithTrialHook, {
+      stripeEventId: event.id,
+    });
+
+    expect(trialsEnding).toEqual(["sub_trial:1700000000:trial@example.com"]);
+    const synced = await t.query(testApi.testGetSubscription, {
+      stripeSubscriptionId: "sub_trial",
+    });
+    expect(synced).toMatchObject({
+      status: "trialing",
+      trialStart: 1699000000,
+      trialEnd: 1700000000,
+    });
+    vi.unstubAllEnvs();
+  });
+
+  test("pauses and resumes a subscription", async () => {
+    const t = initConvexTest();
+    await t.mutation(testApi.testCreateSubscription, {
+      stripeSubscriptionId: "sub_pause",
+    });
+
+    await t.action(testApi.testPauseSubscription, {
+      stripeSubscriptionId: "sub_pause",
+      resumesAt: 1700000000,
+    });
+    const paused = await t.query(testApi.testGetSubscription, {
+      stripeSubscriptionId: "sub_pause",
+    });
+    expect(paused?.pauseCollection).toEqual({
+      behavior: "keep_as_draft",
+      resumesAt: 1700000000,
+    });
+
+    await t.action(testApi.testResumeSubscription, {
+      stripeSubscriptionId: "sub_pause",
+    });
+    const resumed = await t.query(testApi.testGetSubscription, {
+      stripeSubscriptionId: "sub_pause",
+    });
+    expect(resumed?.pauseCollection).toBeUndefined();
+  });
+
+  test("changes a subscription's price and previews the proration", async () => {
+    const t = initConvexTest();
+    fakeSubscriptions.set(
+      "sub_plan",
+      buildSubscription({
+        id: "sub_plan",
+        customer: "cus_plan",
+        items: [
+          buildSubscriptionItem({ id: "si_plan", priceId: "price_basic" }),
+        ],
+      })
+    );
+
+    const preview = await t.action(testApi.testPreviewSubscriptionChange, {
+      stripeSubscriptionId: "sub_plan",
+      newPriceId: "price_pro",
+    });
+    expect(invoicePreviewCalls.at(-1)).toMatchObject({
+      customer: "cus_plan",
+      subscription: "sub_plan",
+      subscription_details: {
+        items: [{ id: "si_plan", price: "price_pro" }],
+        proration_date: preview.prorationDate,
+      },
+    });
+    expect(preview).toMatchObject({
+      currency: "usd",
+      amountDue: 1500,
+      prorationAmount: 500,
+    });
+    expect(preview.lines.map((line) => line.proration)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+
+    await t.mutation(testApi.testCreateSubscription, {
+      stripeSubscriptionId: "sub_plan",
+    });
+    await t.action(testApi.testChangeSubscriptionPrice, {
+      stripeSubscriptionId: "sub_plan",
+      newPriceId: "price_pro",
+    });
+    const subscription = await t.query(testApi.testGetSubscription, {
+      stripeSubscriptionId: "sub_plan",
+    });
+    expect(subscription?.priceId).toBe("price_pro");
+    expect(
+      await t.query(testApi.testListSubscriptionItems, {
+        stripeSubscriptionId: "sub_plan",
+      })
+    ).toMatchObject([
+      { stripeSubscriptionItemId: "si_plan", priceId: "price_pro" },
+    ]);
+  });
+
+  test("resolves price lookup keys from the catalog or Stripe", async () => {
+    const t = initConvexTest();
+    await t.mutation(testApi.testSyncLookupKeyPrice, {
+      stripePriceId: "price_synced_monthly",
+      lookupKey: "pro_monthly",
+    });
+
+    await t.action(testApi.testLookupKeyCheckout, { lookupKey: "pro_monthly" });
+    expect(checkoutSessionCalls.at(-1)?.line_items).toEqual([
+      { price: "price_synced_monthly", quantity: 1 },
+    ]);
+    expect(priceListCalls).toEqual([]);
+
+    await t.action(testApi.testLookupKeyCheckout, { lookupKey: "pro_yearly" });
+    expect(checkoutSessionCalls.at(-1)?.line_items).toEqual([
+      { price: "price_stripe_yearly", quantity: 1 },
+    ]);
+    expect(priceListCalls).toMatchObject([
+      { lookup_keys: ["pro_yearly"], active: true },
+    ]);
+
+    await expect(
+      t.action(testApi.testLookupKeyCheckout, { lookupKey: "missing" })
+    ).rejects.toThrow("No active price with lookup key missing");
+
+    fakeSubscriptions.set(
+      "sub_lookup",
+      buildSubscription({
+        id: "sub_lookup",
+        items: [
+          buildSubscriptionItem({ id: "si_lookup", priceId: "price_basic" }),
+        ],
+      })
+    );
+    await t.action(testApi.testChangeSubscriptionPrice, {
+      stripeSubscriptionId: "sub_lookup",
+      newLookupKey: "pro_monthly",
+    });
+    expect(fakeSubscriptions.get("sub_lookup")?.items.data[0].price.id).toBe(
+      "price_synced_monthly"
+    );
+  });
+
+  test("resolves lookup keys to prices of the API key's mode", async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_live_123");
+    priceListCalls.length = 0;
+    const t = initConvexTest();
+    await t.mutation(testApi.testSyncLookupKeyPrice, {
+      stripePriceId: "price_test_yearly",
+      lookupKey: "pro_yearly",
+      livemode: false,
+    });
+
+    // Only the test mode price is synced, so Stripe is asked
+    await t.action(testApi.testLookupKeyCheckout, { lookupKey: "pro_yearly" });
+    expect(checkoutSessionCalls.at(-1)?.line_items).toEqual([
+      { price: "price_stripe_yearly", quantity: 1 },
+    ]);
+    expect(priceListCalls).toHaveLength(1);
+
+    await t.mutation(testApi.testSyncLookupKeyPrice, {
+      stripePriceId: "price_live_yearly",
+      lookupKey: "pro_yearly",
+      livemode: true,
+    });
+    await t.action(testApi.testLookupKeyCheckout, { lookupKey: "pro_yearly" });
+    expect(checkoutSessionCalls.at(-1)?.line_items).toEqual([
+      { price: "price_live_yearly", quantity: 1 },
+    ]);
+    expect(priceListCalls).toHaveLength(1);
+    vi.unstubAllEnvs();
+  });
+
+  test("cancels and reactivates a subscription", async () => {
+    const t = initConvexTest();
+    await t.mutation(testApi.testCreateSubscription, {
+      stripeSubscriptionId: "sub_cancel",
+    });
+    const getSubscription = () =>
+      t.query(testApi.testGetSubscription, {
+        stripeSubscriptionId: "sub_cancel",
+      });
+
+    await t.action(testApi.testCancelSubscription, {
+      stripeSubscriptionId: "sub_cancel",
+    });
+    expect(await getSubscription()).toMatchObject({
+      cancelAtPeriodEnd: true,
+      cancellationDetails: {
+        reason: "cancellation_requested",
+        feedback: "too_expensive",
+        comment: "Over budget",
+      },
+    });
+
+    await t.action(testApi.testReactivateSubscription, {
+      stripeSubscriptionId: "sub_cancel",
+    });
+    const reactivated = await getSubscription();
+    expect(reactivated?.cancelAtPeriodEnd).toBe(false);
+    expect(reactivated?.cancelAt).toBeUndefined();
+
+    await t.action(testApi.testCancelSubscription, {
+      stripeSubscriptionId: "sub_cancel",
+      cancelAt: 1800000000,
+    });
+    expect(await getSubscription()).toMatchObject({
+      cancelAtPeriodEnd: false,
+      cancelAt: 1800000000,
+    });
+
+    await t.action(testApi.testReactivateSubscription, {
+      stripeSubscriptionId: "sub_cancel",
+    });
+    expect((await getSubscription())?.cancelAt).toBeUndefined();
+  });
+
+  test("schedules a downgrade and releases the schedule", async () => {
+    const t = initConvexTest();
+
+    const scheduleId = await t.action(testApi.testScheduleDowngrade, {
+      stripeSubscriptionId: "sub_deferred",
+      priceId: "price_basic",
+    });
+    expect(scheduleUpdateCalls.at(-1)?.phases).toEqual([
+      {
+        items: [{ price: "price_test", quantity: 1 }],
+        start_date: 1700000000,
+        end_date: 1702592000,
+      },
+      {
+        items: [{ price: "price_basic", quantity: undefined }],
+        end_date: undefined,
+        duration: undefined,
+      },
+    ]);
+    const scheduled = await t.query(
+      testApi.testGetSubscriptionScheduleBySubscriptionId,
+      { stripeSubscriptionId: "sub_deferred" }
+    );
+    expect(scheduled?.stripeScheduleId).toBe(scheduleId);
+    expect(scheduled?.phases[1]).toMatchObject({
+      startDate: 1702592000,
+      items: [{ priceId: "price_basic" }],
+    });
+
+    await t.action(testApi.testReleaseSubscriptionSchedule, {
+      stripeScheduleId: scheduleId,
+    });
+    expect(
+      await t.query(testApi.testGetSubscriptionScheduleBySubscriptionId, {
+        stripeSubscriptionId: "sub_deferred",
+      })
+    ).toBeNull();
+  });
+
+  test("grants entitlements from active and trialing subscriptions", async () => {
+    const t = initConvexTest();
+
+    await t.mutation(testApi.testSyncEntitledSubscription, {
+      status: "trialing",
+    });
+    const { entitlements, hasExports } = await t.query(
+      testApi.testGetEntitlements,
+      { orgId: "org_entitled" }
+    );
+    expect(entitlements.features.sort()).toEqual([
+      "api_access",
+      "audit_log",
+      "exports",
+      "sso",
+    ]);
+    expect(entitlements.limits).toEqual({ projects: 25 });
+    expect(hasExports).toBe(true);
+
+    await t.mutation(testApi.testSyncEntitledSubscription, {
+      status: "past_due",
+    });
+    expect(
+      await t.query(testApi.testGetEntitlements, { orgId: "org_entitled" })
+    ).toEqual({
+      entitlements: { features: [], limits: {} },
+      hasExports: false,
+    });
+  });
+
+  test("adds, updates and removes subscription items", async () => {
+    const t = initConvexTest();
+    const base = buildSubscriptionItem({
+      id: "si_base",
+      subscription: "sub_items",
+      priceId: "price_base",
+    });
+    fakeSubscriptions.set(
+      "sub_items",
+      buildSubscription({ id: "sub_items", items: [base] })
+    );
+    const listItems = () =>
+      t.query(testApi.testListSubscriptionItems, {
+        stripeSubscriptionId: "sub_items",
+      });
+
+    const itemId = await t.action(testApi.testAddSubscriptionItem, {
+      stripeSubscriptionId: "sub_items",
+      priceId: "price_seats",
+    });
+    expect(itemId).toBe("si_added");
+    expect(await listItems()).toMatchObject([
+      { priceId: "price_base" },
+      { priceId: "price_seats", quantity: 2 },
+    ]);
+
+    await t.action(testApi.testUpdateSubscriptionItem, {
+      stripeSubscriptionItemId: itemId,
+      quantity: 5,
+    });
+    expect(await listItems()).toMatchObject([
+      { stripeSubscriptionItemId: "si_base" },
+      { stripeSubscriptionItemId: "si_added", quantity: 5 },
+    ]);
+
+    // Removing the first item moves the subscription onto the next one's price
+    await t.action(testApi.testRemoveSubscriptionItem, {
+      stripeSubscriptionItemId: base.id,
+    });
+    expect(await listItems()).toMatchObject([
+      { stripeSubscriptionItemId: "si_added" },
+    ]);
+    expect(
+      await t.query(testApi.testGetSubscription, {
+        stripeSubscriptionId: "sub_items",
+      })
+    ).toMatchObject({ priceId: "price_seats", quantity: 5 });
+  });
+
+  test("updates the quantity of a subscription", async () => {
+    const t = initConvexTest();
+    fakeSubscriptions.set(
+      "sub_seats",
+      buildSubscription({ id: "sub_seats", quantity: 3 })
+    );
+
+    await t.action(testApi.testUpdateSubscriptionQuantity, {
+      stripeSubscriptionId: "sub_seats",
+      quantity: 10,
+    });
+
+    expect(
+      await t.query(testApi.testGetSubscription, {
+        stripeSubscriptionId: "sub_seats",
+      })
+    ).toMatchObject({ quantity: 10 });
+    expect(
+      await t.query(testApi.testListSubscriptionItems, {
+        stripeSubscriptionId: "sub_seats",
+      })
+    ).toMatchObject([{ quantity: 10 }]);
+  });
+
+  test("syncs the catalog to Stripe by lookup key", async () => {
+    const t = initConvexTest();
+    catalogProducts.set(
+      "prod_pro",
+      buildProduct({ id: "prod_pro", name: "Pro (beta)" })
+    );
+    for (const [id, lookupKey, amount, interval] of [
+      ["price_pro_monthly", "pro_monthly", 1000, "month"],
+      ["price_pro_yearly", "pro_yearly", 10000, "year"],
+      ["price_pro_legacy", null, 500, "month"],
+    ] as const) {
+      catalogPrices.set(
+        id,
+        buildPrice({
+          id,
+          product: "prod_pro",
+          lookup_key: lookupKey,
+          unit_amount: amount,
+          recurring: {
+            interval,
+            interval_count: 1,
+          } as StripeSDK.Price.Recurring,
+        })
+      );
+    }
+
+    const expected = [
+      { type: "update_product", productId: "prod_pro", fields: ["name"] },
+      {
+        type: "replace_price",
+        productId: "prod_pro",
+        lookupKey: "pro_monthly",
+        stripePriceId: "price_pro_monthly",
+        fields: ["unitAmount"],
+      },
+      {
+        type: "update_price",
+        productId: "prod_pro",
+        lookupKey: "pro_yearly",
+        stripePriceId: "price_pro_yearly",
+        fields: ["nickname"],
+      },
+      {
+        type: "archive_price",
+        productId: "prod_pro",
+        stripePriceId: "price_pro_legacy",
+      },
+      { type: "create_product", productId: "prod_team" },
+      {
+        type: "create_price",
+        productId: "prod_team",
+        lookupKey: "team_monthly",
+      },
+    ];
+
+    const dryRun = await t.action(testApi.testSyncCatalog, { dryRun: true });
+    expect(dryRun).toEqual({ dryRun: true, changes: expected });
+    expect(catalogProducts.get("prod_pro")?.name).toBe("Pro (beta)");
+    expect(catalogProducts.has("prod_team")).toBe(false);
+
+    const applied = await t.action(testApi.testSyncCatalog, { dryRun: false });
+    expect(applied).toEqual({ dryRun: false, changes: expected });
+    expect(
+      [...catalogPrices.values()]
+        .filter((price) => price.active)
+        .map((price) => [price.product, price.lookup_key, price.unit_amount])
+    ).toEqual([
+      ["prod_pro", "pro_yearly", 10000],
+      ["prod_pro", "pro_monthly", 1200],
+      ["prod_team", "team_monthly", 5000],
+    ]);
+
+    // Nothing left to change
+    expect(await t.action(testApi.testSyncCatalog, { dryRun: false })).toEqual({
+      dryRun: false,
+      changes: [],
+    });
+
+    const synced = await t.query(testApi.testListPrices, {
+      stripeProductId: "prod_pro",
+    });
+    expect(synced.map((price) => price.lookupKey).sort()).toEqual([
+      "pro_monthly",
+      "pro_yearly",
+    ]);
+  });
+
   test("should provide api() helper for re-export", async () => {
     const c = new Stripe(components.stripe);
     const apiHelpers = c.api();
@@ -99,6 +1511,7 @@ describe("Stripe thick client", () => {
     expect(apiHelpers.listSubscriptions).toBeDefined();
     expect(apiHelpers.getSubscriptionByOrgId).toBeDefined();
     expect(apiHelpers.listSubscriptionsByUserId).toBeDefined();
+    expect(apiHelpers.listSubscriptionItems).toBeDefined();
     expect(apiHelpers.createOrUpdateCustomer).toBeDefined();
     expect(apiHelpers.updateSubscriptionMetadata).toBeDefined();
     expect(apiHelpers.getPayment).toBeDefined();
@@ -107,4 +1520,328 @@ describe("Stripe thick client", () => {
     expect(apiHelpers.listPaymentsByOrgId).toBeDefined();
     expect(apiHelpers.updatePaymentCustomer).toBeDefined();
   });
+
+  test("should retry failed async webhook processing with backoff", async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+    const t = initConvexTest();
+    const event = {
+      id: "evt_async",
+      object: "event",
+      type: "customer.created",
+      created: 1700000000,
+      livemode: false,
+      data: {
+        object: { id: "cus_async", object: "customer", email: "a@b.com" },
+      },
+    };
+
+    const { duplicate } = await t.mutation(testApi.testEnqueueWebhookEvent, {
+      stripeEventId: event.id,
+      type: event.type,
+      payload: JSON.stringify(event),
+    });
+    expect(duplicate).toBe(false);
+
+    // First attempt fails in the custom handler and schedules a retry
+    await t.action(testApi.testProcessStripeEvent, { stripeEventId: event.id });
+    const pending = await t.query(testApi.testGetWebhookEvent, {
+      stripeEventId: event.id,
+    });
+    expect(pending?.status).toBe("pending");
+    expect(pending?.attempts).toBe(1);
+    expect(pending?.error).toBe("Temporary failure");
+    expect(pending?.nextAttemptAt).toBeDefined();
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const processed = await t.query(testApi.testGetWebhookEvent, {
+      stripeEventId: event.id,
+    });
+    expect(processed?.status).toBe("processed");
+    expect(processed?.attempts).toBe(2);
+    expect(customerCreatedCalls).toBe(2);
+
+    const customer = await t.query(testApi.testGetCustomer, {
+      stripeCustomerId: "cus_async",
+    });
+    expect(customer?.email).toBe("a@b.com");
+    vi.unstubAllEnvs();
+  });
+
+  test("should replay failed events from the dead-letter queue", async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+    const t = initConvexTest();
+    const event = {
+      id: "evt_dead_letter",
+      object: "event",
+      type: "customer.created",
+      created: 1700000000,
+      livemode: false,
+      data: { object: { id: "cus_replayed", object: "customer" } },
+    };
+
+    await t.mutation(testApi.testRecordFailedEvent, {
+      stripeEventId: event.id,
+      type: event.type,
+      payload: JSON.stringify(event),
+    });
+
+    const failed = await t.query(testApi.testListFailedEvents, {});
+    expect(failed).toHaveLength(1);
+    expect(failed[0].stripeEventId).toBe(event.id);
+    expect(failed[0].error).toBe("Handler bug");
+    expect(failed[0].errorStack).toContain("at handler");
+
+    const results = await t.action(testApi.testReplayFailedEvents, {});
+    expect(results).toEqual([{ stripeEventId: event.id, status: "processed" }]);
+    expect(replayedEvents).toEqual([event.id]);
+    expect(await t.query(testApi.testListFailedEvents, {})).toHaveLength(0);
+
+    const customer = await t.query(testApi.testGetCustomer, {
+      stripeCustomerId: "cus_replayed",
+    });
+    expect(customer).not.toBeNull();
+    vi.unstubAllEnvs();
+  });
+
+  test("should not replay an event that another attempt is processing", async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+    const t = initConvexTest();
+    const event = {
+      id: "evt_in_flight",
+      object: "event",
+      type: "customer.created",
+      created: 1700000000,
+      livemode: false,
+      data: { object: { id: "cus_in_flight", object: "customer" } },
+    };
+
+    await t.mutation(testApi.testRecordProcessingEvent, {
+      stripeEventId: event.id,
+      type: event.type,
+      payload: JSON.stringify(event),
+    });
+
+    expect(
+      await t.action(testApi.testReplayEvent, { stripeEventId: event.id })
+    ).toEqual({ stripeEventId: event.id, status: "in_progress" });
+    expect(
+      await t.query(testApi.testGetWebhookEvent, { stripeEventId: event.id })
+    ).toMatchObject({ status: "processing", attempts: 1 });
+    vi.unstubAllEnvs();
+  });
+
+  test("should let custom handlers replace or skip the default sync", async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+    const t = initConvexTest();
+    const deletedEvent = (id: string, archived: string) => ({
+      id,
+      object: "event",
+      type: "customer.subscription.deleted",
+      created: 1700000000,
+      livemode: false,
+      data: {
+        object: buildSubscription({
+          id: `sub_${id}`,
+          status: "canceled",
+          metadata: { archived },
+        }),
+      },
+    });
+
+    // Skipped default sync: the customer is never created
+    const created = {
+      id: "evt_skip",
+      object: "event",
+      type: "customer.created",
+      created: 1700000000,
+      livemode: false,
+      data: { object: { id: "cus_skipped", object: "customer" } },
+    };
+    await t.mutation(testApi.testRecordFailedEvent, {
+      stripeEventId: created.id,
+      type: created.type,
+      payload: JSON.stringify(created),
+    });
+    await t.action(testApi.testReplayWithHandlerModes, {
+      stripeEventId: created.id,
+    });
+    expect(
+      await t.query(testApi.testGetCustomer, {
+        stripeCustomerId: "cus_skipped",
+      })
+    ).toBeNull();
+
+    // Replaced default sync that doesn't call the default implementation
+    await t.mutation(testApi.testCreateSubscription, {
+      stripeSubscriptionId: "sub_evt_archived",
+    });
+    const archived = deletedEvent("evt_archived", "true");
+    await t.mutation(testApi.testRecordFailedEvent, {
+      stripeEventId: archived.id,
+      type: archived.type,
+      payload: JSON.stringify(archived),
+    });
+    await t.action(testApi.testReplayWithHandlerModes, {
+      stripeEventId: archived.id,
+    });
+    const kept = await t.query(testApi.testGetSubscription, {
+      stripeSubscriptionId: "sub_evt_archived",
+    });
+    expect(kept?.status).toBe("active");
+
+    // Replaced default sync that calls the default implementation
+    await t.mutation(testApi.testCreateSubscription, {
+      stripeSubscriptionId: "sub_evt_deleted",
+    });
+    const deleted = deletedEvent("evt_deleted", "false");
+    await t.mutation(testApi.testRecordFailedEvent, {
+      stripeEventId: deleted.id,
+      type: deleted.type,
+      payload: JSON.stringify(deleted),
+    });
+    await t.action(testApi.testReplayWithHandlerModes, {
+      stripeEventId: deleted.id,
+    });
+    const canceled = await t.query(testApi.testGetSubscription, {
+      stripeSubscriptionId: "sub_evt_deleted",
+    });
+    expect(canceled?.status).toBe("canceled");
+
+    expect(handlerCalls).toEqual([
+      "onEvent",
+      "replace",
+      "onEvent",
+      "replace",
+      "onEvent",
+    ]);
+    vi.unstubAllEnvs();
+  });
+
+  test("subscription sync hook commits atomically with the sync", async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+    syncedPlans.length = 0;
+    const t = initConvexTest();
+    const createdEvent = (
+      id: string,
+      subscriptionId: string,
+      failSync: string
+    ) => ({
+      id,
+      object: "event",
+      type: "customer.subscription.created",
+      created: 1700000000,
+      livemode: false,
+      data: {
+        object: {
+          id: subscriptionId,
+          object: "subscription",
+          customer: "cus_sync",
+          status: "active",
+          cancel_at_period_end: false,
+          metadata: { failSync },
+          items: {
+            data: [
+              {
+                id: `si_${subscriptionId}`,
+                current_period_start: 1697408000,
+                current_period_end: 1700000000,
+                quantity: 1,
+                price: { id: "price_sync", product: "prod_sync" },
+              },
+            ],
+          },
+        },
+      },
+    });
+
+    const synced = createdEvent("evt_sync_ok", "sub_sync_ok", "false");
+    await t.mutation(testApi.testRecordFailedEvent, {
+      stripeEventId: synced.id,
+      type: synced.type,
+      payload: JSON.stringify(synced),
+    });
+    const ok = await t.action(testApi.testReplayWithSyncHook, {
+      stripeEventId: synced.id,
+    });
+    expect(ok.status).toBe("processed");
+    expect(syncedPlans).toEqual([
+      "customer.subscription.created:sub_sync_ok:active",
+    ]);
+
+    // A failing hook rolls back the component's write
+    const failing = createdEvent("evt_sync_fail", "sub_sync_fail", "true");
+    await t.mutation(testApi.testRecordFailedEvent, {
+      stripeEventId: failing.id,
+      type: failing.type,
+      payload: JSON.stringify(failing),
+    });
+    const failed = await t.action(testApi.testReplayWithSyncHook, {
+      stripeEventId: failing.id,
+    });
+    expect(failed.status).toBe("failed");
+    expect(failed.error).toContain("App sync failed");
+    expect(
+      await t.query(testApi.testGetSubscription, {
+        stripeSubscriptionId: "sub_sync_fail",
+      })
+    ).toBeNull();
+    vi.unstubAllEnvs();
+  });
+
+  test("subscription sync hook runs for changes made through the API", async () => {
+    syncedPlans.length = 0;
+    const t = initConvexTest();
+    await t.mutation(testApi.testCreateSubscription, {
+      stripeSubscriptionId: "sub_api_sync",
+    });
+
+    await t.action(testApi.testCancelWithSyncHook, {
+      stripeSubscriptionId: "sub_api_sync",
+    });
+
+    expect(syncedPlans).toEqual(["api:sub_api_sync:active"]);
+    expect(
+      await t.query(testApi.testGetSubscription, {
+        stripeSubscriptionId: "sub_api_sync",
+      })
+    ).toMatchObject({ cancelAtPeriodEnd: true });
+  });
+
+  test("custom handlers can use the full action ctx", async () => {
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+    handlerCalls.length = 0;
+    const t = initConvexTest();
+    const event = {
+      id: "evt_action_ctx",
+      object: "event",
+      type: "customer.created",
+      created: 1700000000,
+      livemode: false,
+      data: {
+        object: {
+          id: "cus_action_ctx",
+          object: "customer",
+          email: "ctx@example.com",
+          metadata: {},
+        },
+      },
+    };
+    await t.mutation(testApi.testRecordFailedEvent, {
+      stripeEventId: event.id,
+      type: event.type,
+      payload: JSON.stringify(event),
+    });
+    await t.action(testApi.testReplayWithActionCtx, {
+      stripeEventId: event.id,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(handlerCalls).toEqual(["synced:ctx@example.com"]);
+    const subscription = await t.query(testApi.testGetSubscription, {
+      stripeSubscriptionId: "sub_for_cus_action_ctx",
+    });
+    expect(subscription?.stripeCustomerId).toBe("cus_modes");
+    vi.unstubAllEnvs();
+  });
 });
@@ -1,7 +1,19 @@
-import { mutationGeneric, queryGeneric, httpActionGeneric } from "convex/server";
+import {
+  createFunctionHandle,
+  mutationGeneric,
+  queryGeneric,
+  httpActionGeneric,
+  internalActionGeneric,
+} from "convex/server";
+import type {
+  FunctionReference,
+  GenericActionCtx,
+  GenericDataModel,
+} from "convex/server";
 import { v } from "convex/values";
 import StripeSDK from "stripe";
 import type { api } from "../component/_generated/api.js";
+import schema from "../component/schema.js";
 import type {
   UseApi,
   RunMutationCtx,
@@ -9,12 +21,64 @@ import type {
   ActionCtx,
   HttpRouter,
   RegisterRoutesConfig,
-  StripeEventHandlers
+  StripeEventHandlers,
+  AsyncProcessingConfig,
+  ReplayEventResult,
+  StripeOptions,
+  StripeEventHandler,
+  StripeEventHandlerOptions,
+  StripeEventReplaceHandler,
+  DefaultEventHandler,
+  SubscriptionSyncArgs,
+  TrialWillEnd,
+  SubscriptionChangePreview,
+  SubscriptionSchedulePhaseInput,
+  EntitlementGrant,
+  Entitlements,
+  CatalogConfig,
+  CatalogProduct,
+  CatalogPrice,
+  CatalogChange,
+  CatalogSyncResult
 } from "./types.js";
 
 export type StripeComponent = UseApi<typeof api>;
 
-export type { RegisterRoutesConfig, StripeEventHandlers };
+/**
+ * Args validator for an `onSubscriptionSync` mutation.
+ */
+export const vSubscriptionSyncArgs = {
+  eventId: v.optional(v.string()),
+  eventType: v.optional(v.string()),
+  subscription: v.object({
+    _id: v.string(),
+    _creationTime: v.number(),
+    ...schema.tables.subscriptions.validator.fields,
+  }),
+};
+
+export type {
+  RegisterRoutesConfig,
+  StripeEventHandlers,
+  AsyncProcessingConfig,
+  ReplayEventResult,
+  StripeOptions,
+  StripeEventHandler,
+  StripeEventHandlerOptions,
+  StripeEventReplaceHandler,
+  DefaultEventHandler,
+  SubscriptionSyncArgs,
+  TrialWillEnd,
+  SubscriptionChangePreview,
+  SubscriptionSchedulePhaseInput,
+  EntitlementGrant,
+  Entitlements,
+  CatalogConfig,
+  CatalogProduct,
+  CatalogPrice,
+  CatalogChange,
+  CatalogSyncResult,
+};
 
 /**
  * Stripe Component Client
@@ -25,16 +89,49 @@ export type { RegisterRoutesConfig, StripeEventHandlers };
 export class Stripe {
   constructor(
     public component: StripeComponent,
-    public options?: {
-      /**
-       * Stripe webhook secret for signature verification.
-       * Defaults to process.env.STRIPE_WEBHOOK_SECRET
-       * Note: Not currently used by client methods, but kept for future webhook verification features.
-       */
-      STRIPE_WEBHOOK_SECRET?: string;
-    }
+    public options?: StripeOptions
   ) { }
 
+  private stripeClient?: { apiKey: string | undefined; client: StripeSDK };
+
+  /**
+   * Get the Stripe SDK client used for API calls.
+   * The client is created once per API key, using `createStripeClient` if
+   * provided, so you can also use it for your own Stripe calls.
+   */
+  getStripeClient(): StripeSDK {
+    const apiKey =
+      this.options?.STRIPE_SECRET_KEY ?? process.env.STRIPE_SECRET_KEY;
+    if (this.stripeClient && this.stripeClient.apiKey === apiKey) {
+      return this.stripeClient.client;
+    }
+
+    const apiVersion = this.options?.apiVersion as
+      | StripeSDK.LatestApiVersion
+      | undefined;
+    let client: StripeSDK;
+    if (this.options?.createStripeClient) {
+      client = this.options.createStripeClient({ apiKey, apiVersion });
+    } else {
+      if (!apiKey) {
+        throw new Error("STRIPE_SECRET_KEY environment variable is not set");
+      }
+      client = new StripeSDK(apiKey, apiVersion ? { apiVersion } : undefined);
+    }
+    this.stripeClient = { apiKey, client };
+    return client;
+  }
+
+  /**
+   * Whether the configured API key is a live mode key, or undefined when no
+   * key is configured.
+   */
+  private apiKeyLivemode(): boolean | undefined {
+    const apiKey =
+      this.options?.STRIPE_SECRET_KEY ?? process.env.STRIPE_SECRET_KEY;
+    return apiKey === undefined ? undefined : apiKey.includes("_live_");
+  }
+
   // ============================================================================
   // CUSTOMER METHODS
   // ============================================================================
@@ -81,12 +178,69 @@ export class Stripe {
     });
   }
 
+  /**
+   * Get whether a subscription is trialing and how many days of the trial
+   * are left.
+   */
+  async getTrialStatus(ctx: RunQueryCtx, stripeSubscriptionId: string) {
+    return ctx.runQuery(this.component.public.getTrialStatus, {
+      stripeSubscriptionId,
+    });
+  }
+
+  /**
+   * Get the history of a subscription's status, price, quantity and
+   * cancel-flag changes, oldest first, e.g. to see when an org churned or how
+   * long it was past due. Pass `field` to get the changes of one field only.
+   */
+  async getSubscriptionHistory(
+    ctx: RunQueryCtx,
+    stripeSubscriptionId: string,
+    options?: { field?: "status" | "priceId" | "quantity" | "cancelAtPeriodEnd" }
+  ) {
+    return ctx.runQuery(this.component.public.getSubscriptionHistory, {
+      stripeSubscriptionId,
+      field: options?.field,
+    });
+  }
+
+  /**
+   * Count why subscriptions were canceled between `from` and `to` (seconds
+   * since the epoch), by the customer's feedback and by Stripe's reason,
+   * along with the customers' comments. Useful for churn reviews.
+   */
+  async getCancellationReasons(
+    ctx: RunQueryCtx,
+    args: { from: number; to: number; livemode?: boolean }
+  ) {
+    return ctx.runQuery(this.component.public.getCancellationReasons, args);
+  }
+
+  /**
+   * Get the billing health of a subscription: `healthy`, `grace` while a
+   * failed payment is within the grace period, `restricted` after it, or
+   * `suspended` once the subscription no longer grants access. Also returns
+   * the failed payment attempts and the next retry date, e.g. for "update
+   * your card" banners.
+   */
+  async getBillingHealth(ctx: RunQueryCtx, stripeSubscriptionId: string) {
+    return ctx.runQuery(this.component.public.getBillingHealth, {
+      stripeSubscriptionId,
+      gracePeriodDays: this.options?.gracePeriodDays ?? 7,
+    });
+  }
+
   /**
    * List all subscriptions for a customer.
    */
-  async listSubscriptions(ctx: RunQueryCtx, stripeCustomerId: string) {
+  async listSubscriptions(
+    ctx: RunQueryCtx,
+    stripeCustomerId: string,
+    options?: { livemode?: boolean }
+  ) {
     return ctx.runQuery(this.component.public.listSubscriptions, {
       stripeCustomerId,
+      livemode: options?.livemode,
     });
   }
 
@@ -94,18 +248,28 @@ export class Stripe {
    * Get a subscription by organization ID.
    * Returns the first subscription found with the given orgId.
    */
-  async getSubscriptionByOrgId(ctx: RunQueryCtx, orgId: string) {
+  async getSubscriptionByOrgId(
+    ctx: RunQueryCtx,
+    orgId: string,
+    options?: { livemode?: boolean }
+  ) {
     return ctx.runQuery(this.component.public.getSubscriptionByOrgId, {
       orgId,
+      livemode: options?.livemode,
     });
   }
 
   /**
    * List all subscriptions for a user ID.
    */
-  async listSubscriptionsByUserId(ctx: RunQueryCtx, userId: string) {
+  async listSubscriptionsByUserId(
+    ctx: RunQueryCtx,
+    userId: string,
+    options?: { livemode?: boolean }
+  ) {
     return ctx.runQuery(this.component.public.listSubscriptionsByUserId, {
       userId,
+      livemode: options?.livemode,
     });
   }
 
@@ -125,27 +289,42 @@ export class Stripe {
   /**
    * List all payments for a customer.
    */
-  async listPayments(ctx: RunQueryCtx, stripeCustomerId: string) {
+  async listPayments(
+    ctx: RunQueryCtx,
+    stripeCustomerId: string,
+    options?: { livemode?: boolean }
+  ) {
     return ctx.runQuery(this.component.public.listPayments, {
       stripeCustomerId,
+      livemode: options?.livemode,
     });
   }
 
   /**
    * List all payments for a user ID.
    */
-  async listPaymentsByUserId(ctx: RunQueryCtx, userId: string) {
+  async listPaymentsByUserId(
+    ctx: RunQueryCtx,
+    userId: string,
+    options?: { livemode?: boolean }
+  ) {
     return ctx.runQuery(this.component.public.listPaymentsByUserId, {
       userId,
+      livemode: options?.livemode,
     });
   }
 
   /**
    * List all payments for an organization ID.
    */
-  async listPaymentsByOrgId(ctx: RunQueryCtx, orgId: string) {
+  async listPaymentsByOrgId(
+    ctx: RunQueryCtx,
+    orgId: string,
+    options?: { livemode?: boolean }
+  ) {
     return ctx.runQuery(this.component.public.listPaymentsByOrgId, {
       orgId,
+      livemode: options?.livemode,
     });
   }
 
@@ -177,11 +356,7 @@ export class Stripe {
       quantity: number;
     }
   ) {
-    const apiKey = process.env.STRIPE_SECRET_KEY;
-    if (!apiKey) {
-      throw new Error("STRIPE_SECRET_KEY environment variable is not set");
-    }
-    const stripe = new StripeSDK(apiKey);
+    const stripe = this.getStripeClient();
 
     // Get the subscription from Stripe to find the subscription item ID
     const subscription = await stripe.subscriptions.retrieve(
@@ -193,15 +368,15 @@ export class Stripe {
     }
 
     // Update the subscription item quantity
-    await stripe.subscriptionItems.update(subscription.items.data[0].id, {
-      quantity: args.quantity,
-    });
+    const updated = await stripe.subscriptions.update(
+      args.stripeSubscriptionId,
+      {
+        items: [{ id: subscription.items.data[0].id, quantity: args.quantity }],
+      }
+    );
 
     // Update our local database
-    await ctx.runMutation(this.component.public.updateSubscriptionQuantityInternal, {
-      stripeSubscriptionId: args.stripeSubscriptionId,
-      quantity: args.quantity,
-    });
+    await this.syncSubscription(ctx, updated);
 
     return null;
   }
@@ -229,61 +404,902 @@ export class Stripe {
   }
 
   /**
-   * Cancel a subscription either immediately or at period end.
+   * Cancel a subscription immediately, at period end, or at a given
+   * `cancelAt` date (seconds since the epoch). `cancellationDetails` records
+   * why the customer canceled.
+   * This will update both Stripe and the local database.
    */
   async cancelSubscription(
     ctx: ActionCtx,
     args: {
       stripeSubscriptionId: string;
       cancelAtPeriodEnd?: boolean;
+      cancelAt?: number;
+      cancellationDetails?: {
+        feedback?: StripeSDK.SubscriptionCancelParams.CancellationDetails.Feedback;
+        comment?: string;
+      };
+    }
+  ) {
+    const stripe = this.getStripeClient();
+
+    const cancellation_details = args.cancellationDetails;
+    let subscription: StripeSDK.Subscription;
+    if (args.cancelAt !== undefined) {
+      subscription = await stripe.subscriptions.update(
+        args.stripeSubscriptionId,
+        { cancel_at: args.cancelAt, cancellation_details }
+      );
+    } else if (args.cancelAtPeriodEnd ?? true) {
+      subscription = await stripe.subscriptions.update(
+        args.stripeSubscriptionId,
+        { cancel_at_period_end: true, cancellation_details }
+      );
+    } else {
+      subscription = await stripe.subscriptions.cancel(
+        args.stripeSubscriptionId,
+        { cancellation_details }
+      );
+    }
+
+    await this.syncSubscription(ctx, subscription);
+
+    return null;
+  }
+
+  /**
+   * Undo a scheduled cancellation, whether at period end or at a
+   * `cancelAt` date, so the subscription renews as usual.
+   * This will update both Stripe and the local database.
+   */
+  async reactivateSubscription(
+    ctx: ActionCtx,
+    args: { stripeSubscriptionId: string }
+  ) {
+    const stripe = this.getStripeClient();
+
+    let subscription = await stripe.subscriptions.retrieve(
+      args.stripeSubscriptionId
+    );
+    if (subscription.cancel_at_period_end) {
+      subscription = await stripe.subscriptions.update(
+        args.stripeSubscriptionId,
+        { cancel_at_period_end: false }
+      );
+    } else if (subscription.cancel_at) {
+      subscription = await stripe.subscriptions.update(
+        args.stripeSubscriptionId,
+        { cancel_at: "" }
+      );
+    }
+
+    await this.syncSubscription(ctx, subscription);
+
+    return null;
+  }
+
+  /**
+   * Pause payment collection on a subscription, e.g. for a "pause my plan"
+   * retention flow. Invoices created while paused are voided, kept as
+   * drafts or marked uncollectible depending on `behavior`. Collection
+   * resumes at `resumesAt` (seconds since the epoch) if given.
+   * This will update both Stripe and the local database.
+   */
+  async pauseSubscription(
+    ctx: ActionCtx,
+    args: {
+      stripeSubscriptionId: string;
+      behavior: "void" | "keep_as_draft" | "mark_uncollectible";
+      resumesAt?: number;
     }
   ) {
-    const apiKey = process.env.STRIPE_SECRET_KEY;
-    if (!apiKey) {
-      throw new Error("STRIPE_SECRET_KEY environment variable is not set");
+    const stripe = this.getStripeClient();
+
+    const subscription = await stripe.subscriptions.update(
+      args.stripeSubscriptionId,
+      {
+        pause_collection: {
+          behavior: args.behavior,
+          resumes_at: args.resumesAt,
+        },
+      }
+    );
+
+    await this.syncSubscription(ctx, subscription);
+
+    return null;
+  }
+
+  /**
+   * Resume a subscription: clears a pause on payment collection, or resumes
+   * a subscription whose status is `paused` because its trial ended without
+   * a payment method.
+   * This will update both Stripe and the local database.
+   */
+  async resumeSubscription(
+    ctx: ActionCtx,
+    args: {
+      stripeSubscriptionId: string;
     }
-    const stripe = new StripeSDK(apiKey);
+  ) {
+    const stripe = this.getStripeClient();
+
+    const current = await stripe.subscriptions.retrieve(
+      args.stripeSubscriptionId
+    );
+    const subscription =
+      current.status === "paused"
+        ? await stripe.subscriptions.resume(args.stripeSubscriptionId)
+        : await stripe.subscriptions.update(args.stripeSubscriptionId, {
+            pause_collection: "",
+          });
+
+    await this.syncSubscription(ctx, subscription);
 
-    if (args.cancelAtPeriodEnd ?? true) {
-      await stripe.subscriptions.update(args.stripeSubscriptionId, {
-        cancel_at_period_end: true,
+    return null;
+  }
+
+  /**
+   * Move a subscription to another price, e.g. to upgrade or downgrade a
+   * plan. The price is given by `newPriceId` or by its `newLookupKey`.
+   * Changes the first item unless `stripeSubscriptionItemId` is given.
+   * Pass the `prorationDate` returned by `previewSubscriptionChange` to
+   * charge exactly the previewed amounts.
+   * This will update both Stripe and the local database.
+   */
+  async changeSubscriptionPrice(
+    ctx: ActionCtx,
+    args: {
+      stripeSubscriptionId: string;
+      newPriceId?: string;
+      newLookupKey?: string;
+      stripeSubscriptionItemId?: string;
+      prorationBehavior?: StripeSDK.SubscriptionUpdateParams.ProrationBehavior;
+      prorationDate?: number;
+    }
+  ) {
+    const stripe = this.getStripeClient();
+    const priceId = await this.resolvePriceId(ctx, {
+      priceId: args.newPriceId,
+      lookupKey: args.newLookupKey,
+    });
+
+    const current = await stripe.subscriptions.retrieve(
+      args.stripeSubscriptionId
+    );
+    const itemId = subscriptionItemToChange(
+      current,
+      args.stripeSubscriptionItemId
+    );
+
+    const subscription = await stripe.subscriptions.update(
+      args.stripeSubscriptionId,
+      {
+        items: [{ id: itemId, price: priceId }],
+        proration_behavior: args.prorationBehavior,
+        proration_date: args.prorationDate,
+      }
+    );
+
+    await this.syncSubscription(ctx, subscription);
+
+    return null;
+  }
+
+  /**
+   * Preview what moving a subscription to another price would cost, using
+   * Stripe's upcoming invoice preview. Nothing changes in Stripe.
+   */
+  async previewSubscriptionChange(
+    ctx: ActionCtx,
+    args: {
+      stripeSubscriptionId: string;
+      newPriceId?: string;
+      newLookupKey?: string;
+      stripeSubscriptionItemId?: string;
+      prorationBehavior?: StripeSDK.InvoiceCreatePreviewParams.SubscriptionDetails.ProrationBehavior;
+    }
+  ): Promise<SubscriptionChangePreview> {
+    const stripe = this.getStripeClient();
+    const priceId = await this.resolvePriceId(ctx, {
+      priceId: args.newPriceId,
+      lookupKey: args.newLookupKey,
+    });
+
+    const subscription = await stripe.subscriptions.retrieve(
+      args.stripeSubscriptionId
+    );
+    const itemId = subscriptionItemToChange(
+      subscription,
+      args.stripeSubscriptionItemId
+    );
+    const prorationDate = Math.floor(Date.now() / 1000);
+
+    const invoice = await stripe.invoices.createPreview({
+      customer:
+        typeof subscription.customer === "string"
+          ? subscription.customer
+          : subscription.customer.id,
+      subscription: subscription.id,
+      subscription_details: {
+        items: [{ id: itemId, price: priceId }],
+        proration_behavior: args.prorationBehavior,
+        proration_date: prorationDate,
+      },
+    });
+
+    const lines = invoice.lines.data.map((line) => ({
+      description: line.description,
+      amount: line.amount,
+      proration:
+        line.parent?.subscription_item_details?.proration ??
+        line.parent?.invoice_item_details?.proration ??
+        false,
+      periodStart: line.period.start,
+      periodEnd: line.period.end,
+    }));
+
+    return {
+      prorationDate,
+      currency: invoice.currency,
+      subtotal: invoice.subtotal,
+      total: invoice.total,
+      amountDue: invoice.amount_due,
+      prorationAmount: lines
+        .filter((line) => line.proration)
+        .reduce((sum, line) => sum + line.amount, 0),
+      lines,
+    };
+  }
+
+  /**
+   * Write a subscription returned by the Stripe API to the local database,
+   * ahead of its webhook. `lastEventCreated` is left alone: only Stripe's
+   * clock can tell the change's own webhook from older ones.
+   */
+  private async syncSubscription(
+    ctx: RunMutationCtx,
+    subscription: StripeSDK.Subscription
+  ) {
+    const onSubscriptionSync = this.options?.onSubscriptionSync;
+    await ctx.runMutation(this.component.public.handleSubscriptionUpdated, {
+      ...toSubscriptionUpdate(subscription),
+      stripeCustomerId: subscription.customer as string,
+      livemode: subscription.livemode,
+      syncHook: onSubscriptionSync && {
+        handle: await createFunctionHandle(onSubscriptionSync),
+      },
+    });
+  }
+
+  // ============================================================================
+  // SUBSCRIPTION ITEMS
+  // ============================================================================
+
+  /**
+   * List the items of a subscription, e.g. a base price, a seat add-on and
+   * a metered item.
+   */
+  async listSubscriptionItems(ctx: RunQueryCtx, stripeSubscriptionId: string) {
+    return ctx.runQuery(this.component.public.listSubscriptionItems, {
+      stripeSubscriptionId,
+    });
+  }
+
+  /**
+   * Add a price to a subscription as a new item. The price is given by
+   * `priceId` or by its `lookupKey`.
+   * This will update both Stripe and the local database.
+   */
+  async addSubscriptionItem(
+    ctx: ActionCtx,
+    args: {
+      stripeSubscriptionId: string;
+      priceId?: string;
+      lookupKey?: string;
+      quantity?: number;
+      metadata?: Record<string, string>;
+      prorationBehavior?: StripeSDK.SubscriptionItemCreateParams.ProrationBehavior;
+    }
+  ) {
+    const stripe = this.getStripeClient();
+
+    const item = await stripe.subscriptionItems.create({
+      subscription: args.stripeSubscriptionId,
+      price: await this.resolvePriceId(ctx, args),
+      quantity: args.quantity,
+      metadata: args.metadata,
+      proration_behavior: args.prorationBehavior,
+    });
+
+    await this.syncSubscription(
+      ctx,
+      await stripe.subscriptions.retrieve(args.stripeSubscriptionId)
+    );
+
+    return item.id;
+  }
+
+  /**
+   * Change the price or quantity of a subscription item. A new price is
+   * given by `priceId` or by its `lookupKey`.
+   * This will update both Stripe and the local database.
+   */
+  async updateSubscriptionItem(
+    ctx: ActionCtx,
+    args: {
+      stripeSubscriptionItemId: string;
+      priceId?: string;
+      lookupKey?: string;
+      quantity?: number;
+      metadata?: Record<string, string>;
+      prorationBehavior?: StripeSDK.SubscriptionItemUpdateParams.ProrationBehavior;
+    }
+  ) {
+    const stripe = this.getStripeClient();
+    const priceId =
+      args.priceId !== undefined || args.lookupKey !== undefined
+        ? await this.resolvePriceId(ctx, args)
+        : undefined;
+
+    const item = await stripe.subscriptionItems.update(
+      args.stripeSubscriptionItemId,
+      {
+        price: priceId,
+        quantity: args.quantity,
+        metadata: args.metadata,
+        proration_behavior: args.prorationBehavior,
+      }
+    );
+
+    await this.syncSubscription(
+      ctx,
+      await stripe.subscriptions.retrieve(item.subscription)
+    );
+
+    return null;
+  }
+
+  /**
+   * Remove an item from a subscription. Metered items need `clearUsage`
+   * to discard the usage reported in the current period.
+   * This will update both Stripe and the local database.
+   */
+  async removeSubscriptionItem(
+    ctx: ActionCtx,
+    args: {
+      stripeSubscriptionItemId: string;
+      clearUsage?: boolean;
+      prorationBehavior?: StripeSDK.SubscriptionItemDeleteParams.ProrationBehavior;
+    }
+  ) {
+    const stripe = this.getStripeClient();
+    const item = await stripe.subscriptionItems.retrieve(
+      args.stripeSubscriptionItemId
+    );
+
+    await stripe.subscriptionItems.del(args.stripeSubscriptionItemId, {
+      clear_usage: args.clearUsage,
+      proration_behavior: args.prorationBehavior,
+    });
+
+    await this.syncSubscription(
+      ctx,
+      await stripe.subscriptions.retrieve(item.subscription)
+    );
+
+    return null;
+  }
+
+  // ============================================================================
+  // SUBSCRIPTION SCHEDULES
+  // ============================================================================
+
+  /**
+   * Get a subscription schedule by its Stripe ID.
+   */
+  async getSubscriptionSchedule(ctx: RunQueryCtx, stripeScheduleId: string) {
+    return ctx.runQuery(this.component.public.getSubscriptionSchedule, {
+      stripeScheduleId,
+    });
+  }
+
+  /**
+   * Get the schedule currently attached to a subscription, e.g. to show an
+   * upcoming plan change. Released and canceled schedules aren't returned.
+   */
+  async getSubscriptionScheduleBySubscriptionId(
+    ctx: RunQueryCtx,
+    stripeSubscriptionId: string
+  ) {
+    return ctx.runQuery(
+      this.component.public.getSubscriptionScheduleBySubscriptionId,
+      { stripeSubscriptionId }
+    );
+  }
+
+  /**
+   * Attach a schedule to an existing subscription. The schedule's first
+   * phase is the subscription's current period, and `phases` follow it, so
+   * `phases: [{ items: [{ priceId: basic }] }]` downgrades to Basic at the
+   * end of the current period.
+   * This will update both Stripe and the local database.
+   * @returns The Stripe ID of the schedule.
+   */
+  async createSubscriptionSchedule(
+    ctx: ActionCtx,
+    args: {
+      stripeSubscriptionId: string;
+      phases?: SubscriptionSchedulePhaseInput[];
+      endBehavior?: StripeSDK.SubscriptionScheduleUpdateParams.EndBehavior;
+    }
+  ) {
+    const stripe = this.getStripeClient();
+
+    let schedule = await stripe.subscriptionSchedules.create({
+      from_subscription: args.stripeSubscriptionId,
+    });
+    const phases =
+      args.phases && (await this.resolvePhasePrices(ctx, args.phases));
+    if (phases || args.endBehavior) {
+      schedule = await stripe.subscriptionSchedules.update(schedule.id, {
+        ...(phases && { phases: toSchedulePhases(schedule, phases) }),
+        end_behavior: args.endBehavior,
       });
-    } else {
-      await stripe.subscriptions.cancel(args.stripeSubscriptionId);
     }
 
+    await this.syncSubscriptionSchedule(ctx, schedule);
+
+    return schedule.id;
+  }
+
+  /**
+   * Replace the phases that follow the current phase of a schedule.
+   * This will update both Stripe and the local database.
+   */
+  async updateSubscriptionSchedule(
+    ctx: ActionCtx,
+    args: {
+      stripeScheduleId: string;
+      phases: SubscriptionSchedulePhaseInput[];
+      endBehavior?: StripeSDK.SubscriptionScheduleUpdateParams.EndBehavior;
+    }
+  ) {
+    const stripe = this.getStripeClient();
+
+    const phases = await this.resolvePhasePrices(ctx, args.phases);
+
+    const current = await stripe.subscriptionSchedules.retrieve(
+      args.stripeScheduleId
+    );
+    const schedule = await stripe.subscriptionSchedules.update(
+      args.stripeScheduleId,
+      {
+        phases: toSchedulePhases(current, phases),
+        end_behavior: args.endBehavior,
+      }
+    );
+
+    await this.syncSubscriptionSchedule(ctx, schedule);
+
+    return null;
+  }
+
+  /**
+   * Release a schedule, e.g. to drop a pending downgrade. The subscription
+   * keeps its current price and is no longer managed by the schedule.
+   * This will update both Stripe and the local database.
+   */
+  async releaseSubscriptionSchedule(
+    ctx: ActionCtx,
+    args: { stripeScheduleId: string; preserveCancelDate?: boolean }
+  ) {
+    const stripe = this.getStripeClient();
+
+    const schedule = await stripe.subscriptionSchedules.release(
+      args.stripeScheduleId,
+      { preserve_cancel_date: args.preserveCancelDate }
+    );
+
+    await this.syncSubscriptionSchedule(ctx, schedule);
+
     return null;
   }
 
+  /**
+   * Write a schedule returned by the Stripe API to the local database, ahead
+   * of the webhook.
+   */
+  private async syncSubscriptionSchedule(
+    ctx: RunMutationCtx,
+    schedule: StripeSDK.SubscriptionSchedule
+  ) {
+    await ctx.runMutation(
+      this.component.public.handleSubscriptionScheduleUpdated,
+      toSubscriptionScheduleUpdate(schedule)
+    );
+  }
+
+  // ============================================================================
+  // ENTITLEMENTS
+  // ============================================================================
+
+  /**
+   * Get the features and limits of an org or a user, given by `orgId` or
+   * `userId`. Active and trialing subscriptions grant what their prices,
+   * products and lookup keys map to in the `entitlements` option, and the features their
+   * customers have in Stripe Entitlements.
+   */
+  async getEntitlements(
+    ctx: RunQueryCtx,
+    args: { orgId?: string; userId?: string; livemode?: boolean }
+  ): Promise<Entitlements> {
+    const sources = await ctx.runQuery(
+      this.component.public.getEntitlementSources,
+      args
+    );
+
+    const features = new Set(sources.featureLookupKeys);
+    const limits: Record<string, number> = {};
+    for (const subscription of sources.subscriptions) {
+      for (const id of [
+        ...subscription.priceIds,
+        ...subscription.productIds,
+        ...subscription.lookupKeys,
+      ]) {
+        const grant = this.options?.entitlements?.[id];
+        if (!grant) {
+          continue;
+        }
+        grant.features.forEach((feature) => features.add(feature));
+        for (const [name, limit] of Object.entries(grant.limits ?? {})) {
+          limits[name] = Math.max(limits[name] ?? limit, limit);
+        }
+      }
+    }
+
+    return { features: [...features], limits };
+  }
+
+  /**
+   * Whether an org or a user, given by `orgId` or `userId`, has access to a
+   * feature. See `getEntitlements`.
+   */
+  async hasFeature(
+    ctx: RunQueryCtx,
+    args: {
+      orgId?: string;
+      userId?: string;
+      feature: string;
+      livemode?: boolean;
+    }
+  ) {
+    const { feature, ...subject } = args;
+    const entitlements = await this.getEntitlements(ctx, subject);
+    return entitlements.features.includes(feature);
+  }
+
+  // ============================================================================
+  // PRODUCTS & PRICES
+  // ============================================================================
+
+  /**
+   * List the synced products, e.g. for a pricing page. Pass `active` to get
+   * only active or only archived products.
+   */
+  async listProducts(
+    ctx: RunQueryCtx,
+    options?: { active?: boolean; livemode?: boolean }
+  ) {
+    return ctx.runQuery(this.component.public.listProducts, {
+      active: options?.active,
+      livemode: options?.livemode,
+    });
+  }
+
+  /**
+   * List the synced prices, optionally of one product. Pass `active` to get
+   * only active or only archived prices.
+   */
+  async listPrices(
+    ctx: RunQueryCtx,
+    options?: {
+      stripeProductId?: string;
+      active?: boolean;
+      livemode?: boolean;
+    }
+  ) {
+    return ctx.runQuery(this.component.public.listPrices, {
+      stripeProductId: options?.stripeProductId,
+      active: options?.active,
+      livemode: options?.livemode,
+    });
+  }
+
+  /**
+   * Get a synced price by its Stripe ID.
+   */
+  async getPrice(ctx: RunQueryCtx, stripePriceId: string) {
+    return ctx.runQuery(this.component.public.getPrice, { stripePriceId });
+  }
+
+  /**
+   * Get the synced active price with a lookup key.
+   */
+  async getPriceByLookupKey(
+    ctx: RunQueryCtx,
+    lookupKey: string,
+    options?: { livemode?: boolean }
+  ) {
+    return ctx.runQuery(this.component.public.getPriceByLookupKey, {
+      lookupKey,
+      livemode: options?.livemode,
+    });
+  }
+
+  /**
+   * Create or update the products and prices of the `catalog` option in
+   * Stripe. Products are found by ID and prices by lookup key, so running it
+   * again changes nothing. Active prices of catalog products that aren't in
+   * the catalog are archived.
+   * Pass `dryRun` to get the changes without applying them.
+   * Applied changes are written to the local database too.
+   */
+  async syncCatalog(
+    ctx: ActionCtx,
+    args?: { dryRun?: boolean }
+  ): Promise<CatalogSyncResult> {
+    const catalog = this.options?.catalog;
+    if (!catalog) {
+      throw new Error("No catalog configured, pass `catalog` to new Stripe()");
+    }
+    const stripe = this.getStripeClient();
+    const dryRun = args?.dryRun ?? false;
+    const changes: CatalogChange[] = [];
+
+    for (const product of catalog.products) {
+      const productId = product.id;
+      const existing = await retrieveProduct(stripe, productId);
+      if (!existing) {
+        changes.push({ type: "create_product", productId });
+        if (!dryRun) {
+          await this.syncProduct(
+            ctx,
+            await stripe.products.create({
+              id: productId,
+              name: product.name,
+              description: product.description,
+              metadata: product.metadata,
+            })
+          );
+        }
+      } else {
+        const fields = productChanges(existing, product);
+        if (fields.length > 0) {
+          changes.push({ type: "update_product", productId, fields });
+          if (!dryRun) {
+            await this.syncProduct(
+              ctx,
+              await stripe.products.update(productId, {
+                name: product.name,
+                description: product.description,
+                metadata: product.metadata,
+                active: true,
+              })
+            );
+          }
+        }
+      }
+
+      const byLookupKey = await listPricesByLookupKey(
+        stripe,
+        product.prices.map(({ lookupKey }) => lookupKey)
+      );
+      const kept = new Set<string>();
+      for (const price of product.prices) {
+        const { lookupKey } = price;
+        const current = byLookupKey.get(lookupKey);
+        if (!current) {
+          changes.push({ type: "create_price", productId, lookupKey });
+          if (!dryRun) {
+            const created = await stripe.prices.create(
+              toPriceCreate(productId, price)
+            );
+            kept.add(created.id);
+            await this.syncPrice(ctx, created);
+          }
+          continue;
+        }
+
+        const stripePriceId = current.id;
+        const immutable = immutablePriceChanges(current, productId, price);
+        if (immutable.length > 0) {
+          changes.push({
+            type: "replace_price",
+            productId,
+            lookupKey,
+            stripePriceId,
+            fields: immutable,
+          });
+          if (!dryRun) {
+            const created = await stripe.prices.create({
+              ...toPriceCreate(productId, price),
+              transfer_lookup_key: true,
+            });
+            kept.add(created.id);
+            await this.syncPrice(ctx, created);
+            await this.syncPrice(
+              ctx,
+              await stripe.prices.update(stripePriceId, { active: false })
+            );
+          }
+          continue;
+        }
+
+        kept.add(stripePriceId);
+        const fields = priceChanges(current, price);
+        if (fields.length > 0) {
+          changes.push({
+            type: "update_price",
+            productId,
+            lookupKey,
+            stripePriceId,
+            fields,
+          });
+          if (!dryRun) {
+            await this.syncPrice(
+              ctx,
+              await stripe.prices.update(stripePriceId, {
+                nickname: price.nickname,
+                metadata: price.metadata,
+                active: true,
+              })
+            );
+          }
+        }
+      }
+
+      if (!existing) {
+        continue;
+      }
+      const activePrices = await stripe.prices
+        .list({ product: productId, active: true })
+        .autoPagingToArray({ limit: 10000 });
+      for (const price of activePrices) {
+        if (kept.has(price.id) || replacedPrice(changes, price.id)) {
+          continue;
+        }
+        changes.push({
+          type: "archive_price",
+          productId,
+          stripePriceId: price.id,
+          ...(price.lookup_key && { lookupKey: price.lookup_key }),
+        });
+        if (!dryRun) {
+          await this.syncPrice(
+            ctx,
+            await stripe.prices.update(price.id, { active: false })
+          );
+        }
+      }
+    }
+
+    return { dryRun, changes };
+  }
+
+  /**
+   * Write a product returned by the Stripe API to the local database, ahead
+   * of the webhook.
+   */
+  private async syncProduct(ctx: RunMutationCtx, product: StripeSDK.Product) {
+    await ctx.runMutation(this.component.public.handleProductUpdated, {
+      ...toProductUpdate(product),
+      livemode: product.livemode,
+    });
+  }
+
+  /**
+   * Write a price returned by the Stripe API to the local database, ahead of
+   * the webhook.
+   */
+  private async syncPrice(ctx: RunMutationCtx, price: StripeSDK.Price) {
+    await ctx.runMutation(this.component.public.handlePriceUpdated, {
+      ...toPriceUpdate(price),
+      livemode: price.livemode,
+    });
+  }
+
+  /**
+   * Get the Stripe ID of a price given by `priceId` or `lookupKey`. Lookup
+   * keys are found in the synced catalog, in the mode of the API key, or in
+   * Stripe when the catalog doesn't have them.
+   */
+  private async resolvePriceId(
+    ctx: RunQueryCtx,
+    price: { priceId?: string; lookupKey?: string }
+  ) {
+    const { priceId, lookupKey } = price;
+    if (priceId !== undefined && lookupKey !== undefined) {
+      throw new Error("Pass either priceId or lookupKey, not both");
+    }
+    if (priceId !== undefined) {
+      return priceId;
+    }
+    if (lookupKey === undefined) {
+      throw new Error("Either priceId or lookupKey is required");
+    }
+
+    const synced = await this.getPriceByLookupKey(ctx, lookupKey, {
+      livemode: this.apiKeyLivemode(),
+    });
+    if (synced) {
+      return synced.stripePriceId;
+    }
+    const prices = await this.getStripeClient().prices.list({
+      lookup_keys: [lookupKey],
+      active: true,
+      limit: 1,
+    });
+    if (prices.data.length === 0) {
+      throw new Error(`No active price with lookup key ${lookupKey}`);
+    }
+    return prices.data[0].id;
+  }
+
+  /**
+   * Resolve the lookup keys of schedule phase items to price IDs.
+   */
+  private async resolvePhasePrices(
+    ctx: RunQueryCtx,
+    phases: SubscriptionSchedulePhaseInput[]
+  ): Promise<SubscriptionSchedulePhaseInput[]> {
+    const resolved = [];
+    for (const phase of phases) {
+      const items = [];
+      for (const { quantity, ...price } of phase.items) {
+        items.push({
+          priceId: await this.resolvePriceId(ctx, price),
+          quantity,
+        });
+      }
+      resolved.push({ ...phase, items });
+    }
+    return resolved;
+  }
+
   // ============================================================================
   // CHECKOUT & PAYMENTS
   // ============================================================================
 
   /**
    * Create a Stripe Checkout session for one-time payments or subscriptions.
+   * The price is given by `priceId` or by its `lookupKey`.
    */
   async createCheckoutSession(
     ctx: ActionCtx,
     args: {
-      priceId: string;
+      priceId?: string;
+      lookupKey?: string;
       customerId?: string;
       mode: "payment" | "subscription" | "setup";
       successUrl: string;
       cancelUrl: string;
       metadata?: any;
+      trialPeriodDays?: number;
     }
   ) {
-    const apiKey = process.env.STRIPE_SECRET_KEY;
-    if (!apiKey) {
-      throw new Error("STRIPE_SECRET_KEY environment variable is not set");
+    if (args.trialPeriodDays !== undefined && args.mode !== "subscription") {
+      throw new Error("trialPeriodDays is only supported in subscription mode");
     }
-    const stripe = new StripeSDK(apiKey);
+
+    const stripe = this.getStripeClient();
+    const priceId = await this.resolvePriceId(ctx, args);
 
     const sessionParams: StripeSDK.Checkout.SessionCreateParams = {
       mode: args.mode,
       line_items: [
         {
-          price: args.priceId,
+          price: priceId,
           quantity: 1,
         },
       ],
@@ -296,6 +1312,12 @@ export class Stripe {
       sessionParams.customer = args.customerId;
     }
 
+    if (args.trialPeriodDays !== undefined) {
+      sessionParams.subscription_data = {
+        trial_period_days: args.trialPeriodDays,
+      };
+    }
+
     const session = await stripe.checkout.sessions.create(sessionParams);
 
     return {
@@ -314,11 +1336,7 @@ export class Stripe {
       returnUrl: string;
     }
   ) {
-    const apiKey = process.env.STRIPE_SECRET_KEY;
-    if (!apiKey) {
-      throw new Error("STRIPE_SECRET_KEY environment variable is not set");
-    }
-    const stripe = new StripeSDK(apiKey);
+    const stripe = this.getStripeClient();
 
     const session = await stripe.billingPortal.sessions.create({
       customer: args.customerId,
@@ -337,12 +1355,111 @@ export class Stripe {
   /**
    * List invoices for a customer.
    */
-  async listInvoices(ctx: RunQueryCtx, stripeCustomerId: string) {
+  async listInvoices(
+    ctx: RunQueryCtx,
+    stripeCustomerId: string,
+    options?: { livemode?: boolean }
+  ) {
     return ctx.runQuery(this.component.public.listInvoices, {
       stripeCustomerId,
+      livemode: options?.livemode,
     });
   }
 
+  // ============================================================================
+  // WEBHOOK EVENTS
+  // ============================================================================
+
+  /**
+   * Get a webhook event from the event ledger by its Stripe event ID.
+   */
+  async getWebhookEvent(ctx: RunQueryCtx, stripeEventId: string) {
+    return ctx.runQuery(this.component.public.getWebhookEvent, {
+      stripeEventId,
+    });
+  }
+
+  /**
+   * Check whether a webhook event has already been processed successfully.
+   * Useful in custom handlers that trigger side effects outside of Convex.
+   */
+  async isEventProcessed(ctx: RunQueryCtx, stripeEventId: string) {
+    return ctx.runQuery(this.component.public.isEventProcessed, {
+      stripeEventId,
+    });
+  }
+
+  /**
+   * List webhook events that failed processing (the dead-letter queue),
+   * most recent first, including the error message and stack.
+   */
+  async listFailedEvents(ctx: RunQueryCtx, args?: { limit?: number }) {
+    return ctx.runQuery(this.component.public.listFailedEvents, {
+      limit: args?.limit,
+    });
+  }
+
+  /**
+   * Process a stored webhook event again through the default sync and your
+   * handlers, e.g. after shipping a fix for a handler that threw.
+   * Pass the same config you give to `registerRoutes` so your handlers run.
+   */
+  async replayEvent<DataModel extends GenericDataModel>(
+    ctx: GenericActionCtx<DataModel>,
+    stripeEventId: string,
+    config?: RegisterRoutesConfig<DataModel>
+  ): Promise<ReplayEventResult> {
+    const event = await ctx.runQuery(this.component.public.getWebhookEvent, {
+      stripeEventId,
+    });
+    if (!event) {
+      throw new Error(`Webhook event ${stripeEventId} not found`);
+    }
+    if (event.status === "processed") {
+      return { stripeEventId, status: "processed" };
+    }
+    if (!event.payload) {
+      throw new Error(
+        `Webhook event ${stripeEventId} has no stored payload and cannot be replayed`
+      );
+    }
+
+    const result = await this.processStoredEvent(ctx, stripeEventId, config, {
+      retry: false,
+    });
+    if (result) {
+      return result;
+    }
+    // Nothing was claimed: the event was processed in the meantime, or
+    // another attempt still holds it
+    const current = await ctx.runQuery(this.component.public.getWebhookEvent, {
+      stripeEventId,
+    });
+    return {
+      stripeEventId,
+      status: current?.status === "processed" ? "processed" : "in_progress",
+    };
+  }
+
+  /**
+   * Replay every event in the dead-letter queue, one at a time.
+   */
+  async replayFailedEvents<DataModel extends GenericDataModel>(
+    ctx: GenericActionCtx<DataModel>,
+    config?: RegisterRoutesConfig<DataModel>,
+    options?: { limit?: number }
+  ): Promise<ReplayEventResult[]> {
+    const failed = await this.listFailedEvents(ctx, { limit: options?.limit });
+    const results: ReplayEventResult[] = [];
+    for (const event of failed) {
+      if (!event.payload) {
+        continue;
+      }
+      results.push(await this.replayEvent(ctx, event.stripeEventId, config));
+    }
+    return results;
+  }
+
   // ============================================================================
   // API RE-EXPORT HELPERS
   // ============================================================================
@@ -362,28 +1479,133 @@ export class Stripe {
           return await this.getCustomer(ctx, args.stripeCustomerId);
         },
       }),
-      getSubscription: queryGeneric({
+      getSubscription: queryGeneric({
+        args: { stripeSubscriptionId: v.string() },
+        handler: async (ctx, args) => {
+          return await this.getSubscription(ctx, args.stripeSubscriptionId);
+        },
+      }),
+      getTrialStatus: queryGeneric({
+        args: { stripeSubscriptionId: v.string() },
+        handler: async (ctx, args) => {
+          return await this.getTrialStatus(ctx, args.stripeSubscriptionId);
+        },
+      }),
+      getSubscriptionHistory: queryGeneric({
+        args: {
+          stripeSubscriptionId: v.string(),
+          field: v.optional(
+            v.union(
+              v.literal("status"),
+              v.literal("priceId"),
+              v.literal("quantity"),
+              v.literal("cancelAtPeriodEnd")
+            )
+          ),
+        },
+        handler: async (ctx, args) => {
+          return await this.getSubscriptionHistory(
+            ctx,
+            args.stripeSubscriptionId,
+            { field: args.field }
+          );
+        },
+      }),
+      getBillingHealth: queryGeneric({
         args: { stripeSubscriptionId: v.string() },
         handler: async (ctx, args) => {
-          return await this.getSubscription(ctx, args.stripeSubscriptionId);
+          return await this.getBillingHealth(ctx, args.stripeSubscriptionId);
         },
       }),
       listSubscriptions: queryGeneric({
-        args: { stripeCustomerId: v.string() },
+        args: {
+          stripeCustomerId: v.string(),
+          livemode: v.optional(v.boolean()),
+        },
         handler: async (ctx, args) => {
-          return await this.listSubscriptions(ctx, args.stripeCustomerId);
+          return await this.listSubscriptions(ctx, args.stripeCustomerId, {
+            livemode: args.livemode,
+          });
         },
       }),
       getSubscriptionByOrgId: queryGeneric({
-        args: { orgId: v.string() },
+        args: { orgId: v.string(), livemode: v.optional(v.boolean()) },
         handler: async (ctx, args) => {
-          return await this.getSubscriptionByOrgId(ctx, args.orgId);
+          return await this.getSubscriptionByOrgId(ctx, args.orgId, {
+            livemode: args.livemode,
+          });
         },
       }),
       listSubscriptionsByUserId: queryGeneric({
-        args: { userId: v.string() },
+        args: { userId: v.string(), livemode: v.optional(v.boolean()) },
+        handler: async (ctx, args) => {
+          return await this.listSubscriptionsByUserId(ctx, args.userId, {
+            livemode: args.livemode,
+          });
+        },
+      }),
+      listSubscriptionItems: queryGeneric({
+        args: { stripeSubscriptionId: v.string() },
+        handler: async (ctx, args) => {
+          return await this.listSubscriptionItems(
+            ctx,
+            args.stripeSubscriptionId
+          );
+        },
+      }),
+      getSubscriptionScheduleBySubscriptionId: queryGeneric({
+        args: { stripeSubscriptionId: v.string() },
+        handler: async (ctx, args) => {
+          return await this.getSubscriptionScheduleBySubscriptionId(
+            ctx,
+            args.stripeSubscriptionId
+          );
+        },
+      }),
+      getEntitlements: queryGeneric({
+        args: {
+          orgId: v.optional(v.string()),
+          userId: v.optional(v.string()),
+          livemode: v.optional(v.boolean()),
+        },
+        handler: async (ctx, args) => {
+          return await this.getEntitlements(ctx, args);
+        },
+      }),
+      hasFeature: queryGeneric({
+        args: {
+          orgId: v.optional(v.string()),
+          userId: v.optional(v.string()),
+          feature: v.string(),
+          livemode: v.optional(v.boolean()),
+        },
+        handler: async (ctx, args) => {
+          return await this.hasFeature(ctx, args);
+        },
+      }),
+      listProducts: queryGeneric({
+        args: {
+          active: v.optional(v.boolean()),
+          livemode: v.optional(v.boolean()),
+        },
+        handler: async (ctx, args) => {
+          return await this.listProducts(ctx, args);
+        },
+      }),
+      listPrices: queryGeneric({
+        args: {
+          stripeProductId: v.optional(v.string()),
+          active: v.optional(v.boolean()),
+          livemode: v.optional(v.boolean()),
+        },
         handler: async (ctx, args) => {
-          return await this.listSubscriptionsByUserId(ctx, args.userId);
+          return await this.listPrices(ctx, args);
+        },
+      }),
+      getPrice: queryGeneric({
+        args: { stripePriceId: v.string() },
+        handler: async (ctx, args) => {
+          return await this.getPrice(ctx, args.stripePriceId);
         },
       }),
       getPayment: queryGeneric({
@@ -393,27 +1615,41 @@ export class Stripe {
         },
       }),
       listPayments: queryGeneric({
-        args: { stripeCustomerId: v.string() },
+        args: {
+          stripeCustomerId: v.string(),
+          livemode: v.optional(v.boolean()),
+        },
         handler: async (ctx, args) => {
-          return await this.listPayments(ctx, args.stripeCustomerId);
+          return await this.listPayments(ctx, args.stripeCustomerId, {
+            livemode: args.livemode,
+          });
         },
       }),
       listPaymentsByUserId: queryGeneric({
-        args: { userId: v.string() },
+        args: { userId: v.string(), livemode: v.optional(v.boolean()) },
         handler: async (ctx, args) => {
-          return await this.listPaymentsByUserId(ctx, args.userId);
+          return await this.listPaymentsByUserId(ctx, args.userId, {
+            livemode: args.livemode,
+          });
         },
       }),
       listPaymentsByOrgId: queryGeneric({
-        args: { orgId: v.string() },
+        args: { orgId: v.string(), livemode: v.optional(v.boolean()) },
         handler: async (ctx, args) => {
-          return await this.listPaymentsByOrgId(ctx, args.orgId);
+          return await this.listPaymentsByOrgId(ctx, args.orgId, {
+            livemode: args.livemode,
+          });
         },
       }),
       listInvoices: queryGeneric({
-        args: { stripeCustomerId: v.string() },
+        args: {
+          stripeCustomerId: v.string(),
+          livemode: v.optional(v.boolean()),
+        },
         handler: async (ctx, args) => {
-          return await this.listInvoices(ctx, args.stripeCustomerId);
+          return await this.listInvoices(ctx, args.stripeCustomerId, {
+            livemode: args.livemode,
+          });
         },
       }),
       createOrUpdateCustomer: mutationGeneric({
@@ -482,17 +1718,23 @@ export class Stripe {
    * export default http;
    * ```
    */
-  registerRoutes(http: HttpRouter, config?: RegisterRoutesConfig) {
+  registerRoutes<DataModel extends GenericDataModel = GenericDataModel>(
+    http: HttpRouter,
+    config?: RegisterRoutesConfig<DataModel>
+  ) {
     const webhookPath = config?.webhookPath ?? "/stripe/webhook";
-    const eventHandlers = config?.events ?? {};
 
     http.route({
       path: webhookPath,
       method: "POST",
       handler: httpActionGeneric(async (ctx, req) => {
-        const webhookSecret = this.options?.STRIPE_WEBHOOK_SECRET || process.env.STRIPE_WEBHOOK_SECRET;
+        const webhookSecrets = parseWebhookSecrets(
+          config?.webhookSecret ??
+            this.options?.STRIPE_WEBHOOK_SECRET ??
+            process.env.STRIPE_WEBHOOK_SECRET
+        );
 
-        if (!webhookSecret) {
+        if (webhookSecrets.length === 0) {
           console.error("❌ STRIPE_WEBHOOK_SECRET is not set");
           return new Response("Webhook secret not configured", { status: 500 });
         }
@@ -505,43 +1747,109 @@ export class Stripe {
 
         const body = await req.text();
 
-        if (!process.env.STRIPE_SECRET_KEY) {
-          console.error("❌ STRIPE_SECRET_KEY is not set");
+        let stripe: StripeSDK;
+        try {
+          stripe = this.getStripeClient();
+        } catch (err) {
+          console.error("❌ STRIPE_SECRET_KEY is not set:", err);
           return new Response("Stripe secret key not configured", { status: 500 });
         }
 
-        const stripe = new StripeSDK(process.env.STRIPE_SECRET_KEY);
-
-        // Verify webhook signature
-        let event: StripeSDK.Event;
-        try {
-          event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret);
-        } catch (err) {
-          console.error("❌ Webhook signature verification failed:", err);
+        // Verify webhook signature against each configured secret
+        let event: StripeSDK.Event | undefined;
+        let signingSecretIndex: number | undefined;
+        let verificationError: unknown;
+        for (const [index, secret] of webhookSecrets.entries()) {
+          try {
+            event = await stripe.webhooks.constructEventAsync(body, signature, secret);
+            signingSecretIndex = index;
+            break;
+          } catch (err) {
+            verificationError = err;
+          }
+        }
+        if (!event) {
+          console.error("❌ Webhook signature verification failed:", verificationError);
           return new Response(
-            `Webhook signature verification failed: ${err instanceof Error ? err.message : String(err)}`,
+            `Webhook signature verification failed: ${verificationError instanceof Error ? verificationError.message : String(verificationError)}`,
             { status: 400 }
           );
         }
 
-        // Process the event with default handlers
-        try {
-          await this.processEvent(ctx, event, stripe);
+        if (config?.livemode !== undefined && event.livemode !== config.livemode) {
+          console.error(
+            `❌ Rejecting ${event.livemode ? "live" : "test"} mode event ${event.id}`
+          );
+          return new Response("Event livemode does not match configuration", {
+            status: 400,
+          });
+        }
 
-          // Call generic event handler if provided
-          if (config?.onEvent) {
-            await config.onEvent(ctx, event);
+        // In async mode, store the raw event and let the scheduler process it
+        if (config?.async) {
+          const { duplicate } = await ctx.runMutation(
+            this.component.public.enqueueWebhookEvent,
+            {
+              stripeEventId: event.id,
+              type: event.type,
+              livemode: event.livemode,
+              payload: body,
+              signingSecretIndex,
+              // Scheduled by the same mutation, so a stored event is always
+              // processed
+              processor: await createFunctionHandle(config.async.processor),
+            }
+          );
+          if (duplicate) {
+            console.log(`⏭️ Skipping duplicate event ${event.id}`);
           }
+          return new Response(JSON.stringify({ received: true, duplicate }), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
 
-          // Call custom event handler if provided
-          const eventType = event.type;
-          const customHandler: ((ctx: any, event: any) => Promise<void>) | undefined =
-            eventHandlers[eventType] as any;
-          if (customHandler) {
-            await customHandler(ctx, event);
+        // Record the delivery so retried events are not processed twice
+        const { duplicate } = await ctx.runMutation(
+          this.component.public.recordWebhookEvent,
+          {
+            stripeEventId: event.id,
+            type: event.type,
+            livemode: event.livemode,
+            payload: body,
+            signingSecretIndex,
           }
+        );
+        if (duplicate) {
+          console.log(`⏭️ Skipping duplicate event ${event.id}`);
+          return new Response(
+            JSON.stringify({ received: true, duplicate: true }),
+            {
+              status: 200,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        try {
+          // The route runs in the app, so its ctx has the app's data model
+          await this.handleEvent(
+            ctx as unknown as GenericActionCtx<DataModel>,
+            event,
+            stripe,
+            config
+          );
+
+          await ctx.runMutation(this.component.public.markEventProcessed, {
+            stripeEventId: event.id,
+          });
         } catch (error) {
           console.error("❌ Error processing webhook:", error);
+          await ctx.runMutation(this.component.public.markEventFailed, {
+            stripeEventId: event.id,
+            error: error instanceof Error ? error.message : String(error),
+            errorStack: error instanceof Error ? error.stack : undefined,
+          });
           return new Response("Error processing webhook", { status: 500 });
         }
 
@@ -553,6 +1861,166 @@ export class Stripe {
     });
   }
 
+  /**
+   * Create the internal action that processes webhook events stored by
+   * `registerRoutes` in async mode. Export it from your app and pass its
+   * reference as `async.processor` in the same config.
+   *
+   * @example
+   * ```typescript
+   * // convex/http.ts
+   * const webhooks: RegisterRoutesConfig = {
+   *   events: { ... },
+   *   async: { processor: internal.http.processStripeEvent, maxAttempts: 5 },
+   * };
+   *
+   * export const processStripeEvent = stripe.webhookProcessor(webhooks);
+   * stripe.registerRoutes(http, webhooks);
+   * ```
+   */
+  webhookProcessor<DataModel extends GenericDataModel = GenericDataModel>(
+    config: RegisterRoutesConfig<DataModel>
+  ) {
+    return internalActionGeneric({
+      args: { stripeEventId: v.string() },
+      returns: v.null(),
+      handler: async (ctx, args) => {
+        await this.processStoredEvent(ctx, args.stripeEventId, config, {
+          retry: true,
+        });
+        return null;
+      },
+    });
+  }
+
+  /**
+   * Run one processing attempt for a stored event. In async mode a failed
+   * attempt is retried with exponential backoff while attempts remain.
+   * Returns null if there was nothing to process.
+   */
+  private async processStoredEvent<DataModel extends GenericDataModel>(
+    ctx: GenericActionCtx<DataModel>,
+    stripeEventId: string,
+    config: RegisterRoutesConfig<DataModel> | undefined,
+    options: { retry: boolean }
+  ): Promise<ReplayEventResult | null> {
+    const claimed = await ctx.runMutation(
+      this.component.public.claimWebhookEvent,
+      { stripeEventId }
+    );
+    if (!claimed) {
+      return null;
+    }
+
+    const stripe = this.getStripeClient();
+    const event = JSON.parse(claimed.payload) as StripeSDK.Event;
+
+    try {
+      await this.handleEvent(ctx, event, stripe, config);
+
+      await ctx.runMutation(this.component.public.markEventProcessed, {
+        stripeEventId,
+      });
+      return { stripeEventId, status: "processed" };
+    } catch (error) {
+      console.error(
+        `❌ Error processing webhook ${stripeEventId} (attempt ${claimed.attempts}):`,
+        error
+      );
+      const asyncConfig = options.retry ? config?.async : undefined;
+      const maxAttempts = asyncConfig?.maxAttempts ?? 5;
+      const initialBackoffMs = asyncConfig?.initialBackoffMs ?? 1000;
+      const retryDelay =
+        asyncConfig && claimed.attempts < maxAttempts
+          ? initialBackoffMs * 2 ** (claimed.attempts - 1)
+          : undefined;
+
+      const message = error instanceof Error ? error.message : String(error);
+      await ctx.runMutation(this.component.public.markEventFailed, {
+        stripeEventId,
+        error: message,
+        errorStack: error instanceof Error ? error.stack : undefined,
+        nextAttemptAt:
+          retryDelay !== undefined ? Date.now() + retryDelay : undefined,
+      });
+      if (asyncConfig && retryDelay !== undefined) {
+        await ctx.scheduler.runAfter(retryDelay, asyncConfig.processor, {
+          stripeEventId,
+        });
+      }
+      return { stripeEventId, status: "failed", error: message };
+    }
+  }
+
+  /**
+   * Run the default database sync and the configured handlers, in the order
+   * set by each handler's mode.
+   */
+  private async handleEvent<DataModel extends GenericDataModel>(
+    ctx: GenericActionCtx<DataModel>,
+    event: StripeSDK.Event,
+    stripe: StripeSDK,
+    config?: RegisterRoutesConfig<DataModel>
+  ): Promise<void> {
+    const entry = config?.events?.[event.type] as unknown as
+      | StripeEventHandler<StripeSDK.Event.Type, DataModel>
+      | StripeEventHandlerOptions<StripeSDK.Event.Type, DataModel>
+      | undefined;
+    const options:
+      | StripeEventHandlerOptions<StripeSDK.Event.Type, DataModel>
+      | undefined =
+      typeof entry === "function" ? { mode: "after", handler: entry } : entry;
+    const defaultHandler = () =>
+      this.processEvent(
+        ctx,
+        event,
+        stripe,
+        config?.onSubscriptionSync ?? this.options?.onSubscriptionSync
+      );
+
+    if (options?.mode === "before") {
+      await options.handler(ctx, event);
+    }
+
+    // Process the event with default handlers, unless the custom handler
+    // replaces or skips them
+    if (options?.mode === "replace") {
+      await options.handler(ctx, event, defaultHandler);
+    } else if (options?.mode !== "skip") {
+      await defaultHandler();
+    }
+
+    if (
+      event.type === "customer.subscription.trial_will_end" &&
+      config?.onTrialWillEnd
+    ) {
+      const subscription = event.data.object;
+      const customerId =
+        typeof subscription.customer === "string"
+          ? subscription.customer
+          : subscription.customer.id;
+      await config.onTrialWillEnd(
+        ctx,
+        {
+          subscription,
+          trialEnd: subscription.trial_end ?? 0,
+          customer: await this.getCustomer(ctx, customerId),
+        },
+        event
+      );
+    }
+
+    // Call generic event handler if provided
+    if (config?.onEvent) {
+      await config.onEvent(ctx, event);
+    }
+
+    // Call custom event handler if provided
+    if (options?.mode === "after") {
+      await options.handler(ctx, event);
+    }
+  }
+
   /**
    * Internal method to process Stripe webhook events with default handling.
    * This handles the database syncing for all supported event types.
@@ -560,8 +2028,19 @@ export class Stripe {
   private async processEvent(
     ctx: RunMutationCtx,
     event: StripeSDK.Event,
-    stripe: StripeSDK
+    stripe: StripeSDK,
+    onSubscriptionSync?: FunctionReference<
+      "mutation",
+      "internal",
+      SubscriptionSyncArgs
+    >
   ): Promise<void> {
+    const syncHook = onSubscriptionSync && {
+      handle: await createFunctionHandle(onSubscriptionSync),
+      eventId: event.id,
+      eventType: event.type,
+    };
+
     switch (event.type) {
       case "customer.created":
       case "customer.updated": {
@@ -576,34 +2055,37 @@ export class Stripe {
           email: customer.email || undefined,
           name: customer.name || undefined,
           metadata: customer.metadata,
+          livemode: event.livemode,
+          eventCreated: event.created,
         });
         break;
       }
 
       case "customer.subscription.created": {
-        const subscription = event.data.object as any;
+        const subscription = event.data.object;
         await ctx.runMutation(this.component.public.handleSubscriptionCreated, {
-          stripeSubscriptionId: subscription.id,
+          ...toSubscriptionUpdate(subscription),
           stripeCustomerId: subscription.customer as string,
-          status: subscription.status,
-          currentPeriodEnd: subscription.items.data[0]?.current_period_end || 0,
-          cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
-          quantity: subscription.items.data[0]?.quantity ?? 1,
-          priceId: subscription.items.data[0]?.price.id || "",
-          metadata: subscription.metadata || {},
+          livemode: event.livemode,
+          eventCreated: event.created,
+          eventId: event.id,
+          syncHook,
         });
         break;
       }
 
-      case "customer.subscription.updated": {
-        const subscription = event.data.object as any;
+      case "customer.subscription.updated":
+      case "customer.subscription.paused":
+      case "customer.subscription.resumed":
+      case "customer.subscription.trial_will_end": {
+        const subscription = event.data.object;
         await ctx.runMutation(this.component.public.handleSubscriptionUpdated, {
-          stripeSubscriptionId: subscription.id,
-          status: subscription.status,
-          currentPeriodEnd: subscription.items.data[0]?.current_period_end || 0,
-          cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
-          quantity: subscription.items.data[0]?.quantity ?? 1,
-          metadata: subscription.metadata || {},
+          ...toSubscriptionUpdate(subscription),
+          stripeCustomerId: subscription.customer as string,
+          livemode: event.livemode,
+          eventCreated: event.created,
+          eventId: event.id,
+          syncHook,
         });
         break;
       }
@@ -611,7 +2093,77 @@ export class Stripe {
       case "customer.subscription.deleted": {
         const subscription = event.data.object as StripeSDK.Subscription;
         await ctx.runMutation(this.component.public.handleSubscriptionDeleted, {
-          stripeSubscriptionId: subscription.id,
+          ...toSubscriptionUpdate(subscription),
+          eventCreated: event.created,
+          eventId: event.id,
+          syncHook,
+        });
+        break;
+      }
+
+      case "subscription_schedule.created":
+      case "subscription_schedule.updated":
+      case "subscription_schedule.released":
+      case "subscription_schedule.canceled":
+      case "subscription_schedule.completed":
+      case "subscription_schedule.aborted":
+      case "subscription_schedule.expiring": {
+        await ctx.runMutation(
+          this.component.public.handleSubscriptionScheduleUpdated,
+          {
+            ...toSubscriptionScheduleUpdate(event.data.object),
+            eventCreated: event.created,
+          }
+        );
+        break;
+      }
+
+      case "entitlements.active_entitlement_summary.updated": {
+        const summary = event.data.object;
+        await ctx.runMutation(
+          this.component.public.handleActiveEntitlementSummaryUpdated,
+          {
+            stripeCustomerId: summary.customer,
+            featureLookupKeys: summary.entitlements.data.map(
+              (entitlement) => entitlement.lookup_key
+            ),
+            livemode: event.livemode,
+            eventCreated: event.created,
+          }
+        );
+        break;
+      }
+
+      case "product.created":
+      case "product.updated": {
+        await ctx.runMutation(this.component.public.handleProductUpdated, {
+          ...toProductUpdate(event.data.object),
+          livemode: event.livemode,
+          eventCreated: event.created,
+        });
+        break;
+      }
+
+      case "product.deleted": {
+        await ctx.runMutation(this.component.public.handleProductDeleted, {
+          stripeProductId: event.data.object.id,
+        });
+        break;
+      }
+
+      case "price.created":
+      case "price.updated": {
+        await ctx.runMutation(this.component.public.handlePriceUpdated, {
+          ...toPriceUpdate(event.data.object),
+          livemode: event.livemode,
+          eventCreated: event.created,
+        });
+        break;
+      }
+
+      case "price.deleted": {
+        await ctx.runMutation(this.component.public.handlePriceDeleted, {
+          stripePriceId: event.data.object.id,
         });
         break;
       }
@@ -623,6 +2175,7 @@ export class Stripe {
           stripeCustomerId: session.customer ? (session.customer as string) : undefined,
           mode: session.mode || "payment",
           metadata: session.metadata || undefined,
+          livemode: event.livemode,
         });
 
         // For payment mode, link the payment to the customer if we have both
@@ -641,21 +2194,25 @@ export class Stripe {
         await ctx.runMutation(this.component.public.handleInvoiceCreated, {
           stripeInvoiceId: invoice.id,
           stripeCustomerId: invoice.customer as string,
-          stripeSubscriptionId: (invoice as any).subscription as string | undefined,
+          stripeSubscriptionId: invoiceSubscriptionId(invoice),
           status: invoice.status || "open",
           amountDue: invoice.amount_due,
           amountPaid: invoice.amount_paid,
           created: invoice.created,
+          livemode: event.livemode,
+          eventCreated: event.created,
         });
         break;
       }
 
       case "invoice.paid":
       case "invoice.payment_succeeded": {
-        const invoice = event.data.object as any;
+        const invoice = event.data.object as StripeSDK.Invoice;
         await ctx.runMutation(this.component.public.handleInvoicePaid, {
           stripeInvoiceId: invoice.id,
+          stripeSubscriptionId: invoiceSubscriptionId(invoice),
           amountPaid: invoice.amount_paid,
+          eventCreated: event.created,
         });
         break;
       }
@@ -664,6 +2221,10 @@ export class Stripe {
         const invoice = event.data.object as StripeSDK.Invoice;
         await ctx.runMutation(this.component.public.handleInvoicePaymentFailed, {
           stripeInvoiceId: invoice.id,
+          stripeSubscriptionId: invoiceSubscriptionId(invoice),
+          attemptCount: invoice.attempt_count,
+          nextPaymentAttempt: invoice.next_payment_attempt ?? undefined,
+          eventCreated: event.created,
         });
         break;
       }
@@ -709,6 +2270,7 @@ export class Stripe {
           status: paymentIntent.status,
           created: paymentIntent.created,
           metadata: paymentIntent.metadata || {},
+          livemode: event.livemode,
         });
         break;
       }
@@ -719,4 +2281,389 @@ export class Stripe {
   }
 }
 
+/**
+ * Find the subscription item to move to a new price: the given item, or the
+ * first one.
+ */
+function subscriptionItemToChange(
+  subscription: StripeSDK.Subscription,
+  stripeSubscriptionItemId: string | undefined
+) {
+  const item = stripeSubscriptionItemId
+    ? subscription.items.data.find(({ id }) => id === stripeSubscriptionItemId)
+    : subscription.items.data[0];
+  if (!item) {
+    throw new Error(
+      stripeSubscriptionItemId
+        ? `Subscription item ${stripeSubscriptionItemId} not found on ${subscription.id}`
+        : "Subscription has no items"
+    );
+  }
+  return item.id;
+}
+
+/**
+ * Read the fields synced to the `subscriptions` table from a Stripe
+ * subscription, as accepted by `handleSubscriptionUpdated`.
+ */
+function toSubscriptionUpdate(subscription: StripeSDK.Subscription) {
+  const idOf = (value: string | { id: string } | null) =>
+    typeof value === "string" ? value : value?.id;
+  const firstItem = subscription.items.data[0];
+  return {
+    stripeSubscriptionId: subscription.id,
+    status: subscription.status,
+    currentPeriodEnd: firstItem?.current_period_end || 0,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
+    quantity: firstItem?.quantity ?? 1,
+    priceId: firstItem?.price.id || "",
+    lookupKey: firstItem?.price.lookup_key ?? undefined,
+    trialStart: subscription.trial_start ?? undefined,
+    trialEnd: subscription.trial_end ?? undefined,
+    currentPeriodStart: firstItem?.current_period_start,
+    startDate: subscription.start_date,
+    billingCycleAnchor: subscription.billing_cycle_anchor,
+    cancelAt: subscription.cancel_at ?? undefined,
+    canceledAt: subscription.canceled_at ?? undefined,
+    endedAt: subscription.ended_at ?? undefined,
+    collectionMethod: subscription.collection_method,
+    pauseCollection: subscription.pause_collection
+      ? {
+          behavior: subscription.pause_collection.behavior,
+          resumesAt: subscription.pause_collection.resumes_at ?? undefined,
+        }
+      : undefined,
+    latestInvoiceId: idOf(subscription.latest_invoice),
+    defaultPaymentMethod: idOf(subscription.default_payment_method),
+    cancellationDetails: toCancellationDetails(
+      subscription.cancellation_details
+    ),
+    metadata: subscription.metadata || {},
+    items: subscription.items.data.map(toSubscriptionItem),
+  };
+}
+
+/**
+ * Read a subscription's cancellation details, leaving them out when Stripe
+ * has none.
+ */
+function toCancellationDetails(
+  details: StripeSDK.Subscription.CancellationDetails | null
+) {
+  if (!details || (!details.reason && !details.feedback && !details.comment)) {
+    return undefined;
+  }
+  return {
+    reason: details.reason ?? undefined,
+    feedback: details.feedback ?? undefined,
+    comment: details.comment ?? undefined,
+  };
+}
+
+/**
+ * Read the fields stored in the `subscription_items` table from a Stripe
+ * subscription item.
+ */
+function toSubscriptionItem(item: StripeSDK.SubscriptionItem) {
+  return {
+    stripeSubscriptionItemId: item.id,
+    priceId: item.price.id,
+    productId:
+      typeof item.price.product === "string"
+        ? item.price.product
+        : item.price.product.id,
+    lookupKey: item.price.lookup_key ?? undefined,
+    quantity: item.quantity,
+    currentPeriodStart: item.current_period_start,
+    currentPeriodEnd: item.current_period_end,
+    metadata: item.metadata,
+  };
+}
+
+/**
+ * Read the fields stored in the `subscription_schedules` table from a Stripe
+ * subscription schedule.
+ */
+function toSubscriptionScheduleUpdate(schedule: StripeSDK.SubscriptionSchedule) {
+  const idOf = (value: string | { id: string } | null) =>
+    typeof value === "string" ? value : value?.id;
+  return {
+    stripeScheduleId: schedule.id,
+    stripeCustomerId: idOf(schedule.customer) ?? "",
+    stripeSubscriptionId: idOf(schedule.subscription),
+    status: schedule.status,
+    endBehavior: schedule.end_behavior,
+    currentPhase: schedule.current_phase
+      ? {
+          startDate: schedule.current_phase.start_date,
+          endDate: schedule.current_phase.end_date,
+        }
+      : undefined,
+    phases: schedule.phases.map((phase) => ({
+      startDate: phase.start_date,
+      endDate: phase.end_date,
+      items: phase.items.map((item) => ({
+        priceId: idOf(item.price) ?? "",
+        quantity: item.quantity,
+      })),
+    })),
+    releasedAt: schedule.released_at ?? undefined,
+    releasedSubscriptionId: schedule.released_subscription ?? undefined,
+    canceledAt: schedule.canceled_at ?? undefined,
+    metadata: schedule.metadata || {},
+    livemode: schedule.livemode,
+  };
+}
+
+/**
+ * Build the phases of a schedule update: the schedule's current phase as is,
+ * followed by the given phases. Past phases are left out, as Stripe allows.
+ */
+function toSchedulePhases(
+  schedule: StripeSDK.SubscriptionSchedule,
+  phases: SubscriptionSchedulePhaseInput[]
+): StripeSDK.SubscriptionScheduleUpdateParams.Phase[] {
+  const current = schedule.current_phase
+    ? schedule.phases.find(
+        (phase) => phase.start_date === schedule.current_phase?.start_date
+      )
+    : undefined;
+  const next = phases.map((phase) => ({
+    items: phase.items.map((item) => ({
+      price: item.priceId,
+      quantity: item.quantity,
+    })),
+    end_date: phase.endDate,
+    duration: phase.duration && {
+      interval: phase.duration.interval,
+      interval_count: phase.duration.intervalCount,
+    },
+  }));
+  if (!current) {
+    // A schedule that hasn't started keeps its start date
+    const startDate = schedule.phases[0]?.start_date;
+    return next.map((phase, i) =>
+      i === 0 && startDate ? { ...phase, start_date: startDate } : phase
+    );
+  }
+  return [
+    {
+      items: current.items.map((item) => ({
+        price: typeof item.price === "string" ? item.price : item.price.id,
+        quantity: item.quantity,
+      })),
+      start_date: current.start_date,
+      end_date: current.end_date,
+    },
+    ...next,
+  ];
+}
+
+/**
+ * Read the fields stored in the `products` table from a Stripe product.
+ */
+function toProductUpdate(product: StripeSDK.Product) {
+  return {
+    stripeProductId: product.id,
+    name: product.name,
+    description: product.description ?? undefined,
+    active: product.active,
+    defaultPriceId:
+      typeof product.default_price === "string"
+        ? product.default_price
+        : product.default_price?.id,
+    metadata: product.metadata || {},
+  };
+}
+
+/**
+ * Read the fields stored in the `prices` table from a Stripe price.
+ */
+function toPriceUpdate(price: StripeSDK.Price) {
+  return {
+    stripePriceId: price.id,
+    stripeProductId:
+      typeof price.product === "string" ? price.product : price.product.id,
+    active: price.active,
+    currency: price.currency,
+    unitAmount: price.unit_amount ?? undefined,
+    type: price.type,
+    recurring: price.recurring
+      ? {
+          interval: price.recurring.interval,
+          intervalCount: price.recurring.interval_count,
+        }
+      : undefined,
+    lookupKey: price.lookup_key ?? undefined,
+    nickname: price.nickname ?? undefined,
+    metadata: price.metadata || {},
+  };
+}
+
+/**
+ * Get a product by ID, or null if the account doesn't have it.
+ */
+async function retrieveProduct(stripe: StripeSDK, productId: string) {
+  try {
+    return await stripe.products.retrieve(productId);
+  } catch (err) {
+    if ((err as { code?: string }).code === "resource_missing") {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Get the prices with the given lookup keys, active or not, by lookup key.
+ */
+async function listPricesByLookupKey(stripe: StripeSDK, lookupKeys: string[]) {
+  const prices = new Map<string, StripeSDK.Price>();
+  // Stripe accepts up to 10 lookup keys per request
+  for (let i = 0; i < lookupKeys.length; i += 10) {
+    const page = await stripe.prices.list({
+      lookup_keys: lookupKeys.slice(i, i + 10),
+      limit: 10,
+    });
+    for (const price of page.data) {
+      if (price.lookup_key) {
+        prices.set(price.lookup_key, price);
+      }
+    }
+  }
+  return prices;
+}
+
+/**
+ * Names of the metadata keys whose values differ. Keys that are only in
+ * Stripe are left alone.
+ */
+function metadataChanges(
+  current: StripeSDK.Metadata,
+  metadata: Record<string, string> | undefined
+) {
+  return Object.entries(metadata ?? {})
+    .filter(([key, value]) => current[key] !== value)
+    .map(([key]) => `metadata.${key}`);
+}
+
+/**
+ * Fields of a catalog product that differ from the Stripe product.
+ */
+function productChanges(current: StripeSDK.Product, product: CatalogProduct) {
+  const fields = [];
+  if (current.name !== product.name) {
+    fields.push("name");
+  }
+  if (
+    product.description !== undefined &&
+    current.description !== product.description
+  ) {
+    fields.push("description");
+  }
+  if (!current.active) {
+    fields.push("active");
+  }
+  return [...fields, ...metadataChanges(current.metadata, product.metadata)];
+}
+
+/**
+ * Fields of a catalog price that Stripe can't update on the existing price.
+ */
+function immutablePriceChanges(
+  current: StripeSDK.Price,
+  productId: string,
+  price: CatalogPrice
+) {
+  const currentProductId =
+    typeof current.product === "string" ? current.product : current.product.id;
+  const fields = [];
+  if (currentProductId !== productId) {
+    fields.push("product");
+  }
+  if (current.unit_amount !== price.unitAmount) {
+    fields.push("unitAmount");
+  }
+  if (current.currency !== price.currency.toLowerCase()) {
+    fields.push("currency");
+  }
+  if (
+    current.recurring?.interval !== price.recurring?.interval ||
+    (current.recurring?.interval_count ?? 1) !==
+      (price.recurring?.intervalCount ?? 1)
+  ) {
+    fields.push("recurring");
+  }
+  return fields;
+}
+
+/**
+ * Fields of a catalog price that can be updated on the Stripe price.
+ */
+function priceChanges(current: StripeSDK.Price, price: CatalogPrice) {
+  const fields = [];
+  if (price.nickname !== undefined && current.nickname !== price.nickname) {
+    fields.push("nickname");
+  }
+  if (!current.active) {
+    fields.push("active");
+  }
+  return [...fields, ...metadataChanges(current.metadata, price.metadata)];
+}
+
+/**
+ * Whether a price is already replaced by a change of the sync.
+ */
+function replacedPrice(changes: CatalogChange[], stripePriceId: string) {
+  return changes.some(
+    (change) =>
+      change.type === "replace_price" && change.stripePriceId === stripePriceId
+  );
+}
+
+/**
+ * Build the parameters to create a catalog price in Stripe.
+ */
+function toPriceCreate(
+  productId: string,
+  price: CatalogPrice
+): StripeSDK.PriceCreateParams {
+  return {
+    product: productId,
+    currency: price.currency.toLowerCase(),
+    unit_amount: price.unitAmount,
+    recurring: price.recurring && {
+      interval: price.recurring.interval,
+      interval_count: price.recurring.intervalCount,
+    },
+    lookup_key: price.lookupKey,
+    nickname: price.nickname,
+    metadata: price.metadata,
+  };
+}
+
+/**
+ * Get the subscription an invoice bills, if any. Older API versions have it
+ * on the invoice itself rather than under `parent`.
+ */
+function invoiceSubscriptionId(invoice: StripeSDK.Invoice) {
+  const subscription =
+    invoice.parent?.subscription_details?.subscription ??
+    (invoice as { subscription?: string | StripeSDK.Subscription | null })
+      .subscription;
+  if (!subscription) {
+    return undefined;
+  }
+  return typeof subscription === "string" ? subscription : subscription.id;
+}
+
+/**
+ * Normalize webhook secret configuration into a list of secrets.
+ * A single string may hold several comma-separated secrets.
+ */
+function parseWebhookSecrets(secrets: string | string[] | undefined) {
+  const list = Array.isArray(secrets) ? secrets : (secrets ?? "").split(",");
+  return list.map((secret) => secret.trim()).filter(Boolean);
+}
+
 export default Stripe;
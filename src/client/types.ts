@@ -6,9 +6,12 @@ import type {
   StorageActionWriter,
   StorageReader,
   HttpRouter,
+  GenericActionCtx,
+  GenericDataModel,
 } from "convex/server";
 import type { GenericId } from "convex/values";
 import type Stripe from "stripe";
+import type { Doc } from "../component/_generated/dataModel.js";
 
 // Type utils follow
 
@@ -68,52 +71,406 @@ export type UseApi<API> = Expand<{
     : UseApi<API[mod]>;
 }>;
 
+// Client Options
+
+/**
+ * Options for the `Stripe` client.
+ */
+export type StripeOptions = {
+  /**
+   * Stripe webhook secret for signature verification.
+   * Defaults to process.env.STRIPE_WEBHOOK_SECRET, which may hold several
+   * comma-separated secrets.
+   * Pass a list to accept any of several secrets, e.g. while rotating the
+   * endpoint secret or when test and live endpoints share a deployment.
+   */
+  STRIPE_WEBHOOK_SECRET?: string | string[];
+
+  /**
+   * Stripe secret or restricted API key used for API calls.
+   * Defaults to process.env.STRIPE_SECRET_KEY
+   */
+  STRIPE_SECRET_KEY?: string;
+
+  /**
+   * Pin the Stripe API version used for API calls.
+   * Defaults to the version of the installed Stripe SDK.
+   */
+  apiVersion?: string;
+
+  /**
+   * Factory for the Stripe SDK client, e.g. to share one configured client
+   * or to point tests at a local fake Stripe server.
+   * It is called once per API key and the client is reused.
+   */
+  createStripeClient?: (config: {
+    apiKey: string | undefined;
+    apiVersion: Stripe.LatestApiVersion | undefined;
+  }) => Stripe;
+
+  /**
+   * Features and limits granted by active or trialing subscriptions, keyed by
+   * Stripe price ID, product ID or price lookup key. Used by `hasFeature` and `getEntitlements`,
+   * along with the features synced from Stripe Entitlements.
+   */
+  entitlements?: Record<string, EntitlementGrant>;
+
+  /**
+   * Days a subscription keeps access after a failed payment before
+   * `getBillingHealth` reports it as restricted.
+   * Defaults to 7.
+   */
+  gracePeriodDays?: number;
+
+  /**
+   * Products and prices to create or update in Stripe with `syncCatalog`,
+   * e.g. to keep test and live accounts consistent.
+   */
+  catalog?: CatalogConfig;
+
+  /**
+   * Optional app mutation, e.g. `internal.billing.syncSubscription`, that the
+   * component calls inside the same transaction as each subscription write,
+   * from webhooks and from methods like `cancelSubscription` alike.
+   * `registerRoutes` uses it unless its config sets its own.
+   * Validate its args with `vSubscriptionSyncArgs`.
+   */
+  onSubscriptionSync?: FunctionReference<
+    "mutation",
+    "internal",
+    SubscriptionSyncArgs
+  >;
+};
+
+/**
+ * Products and prices declared in code, for `syncCatalog`.
+ */
+export type CatalogConfig = {
+  products: CatalogProduct[];
+};
+
+/**
+ * A product of the catalog.
+ */
+export type CatalogProduct = {
+  /** Stripe product ID, e.g. "prod_pro", the same in every account. */
+  id: string;
+  name: string;
+  description?: string;
+  metadata?: Record<string, string>;
+  /** Active prices of the product. Other active prices are archived. */
+  prices: CatalogPrice[];
+};
+
+/**
+ * A price of a catalog product, found in Stripe by its lookup key.
+ */
+export type CatalogPrice = {
+  lookupKey: string;
+  /** In the smallest currency unit, e.g. cents. */
+  unitAmount: number;
+  currency: string;
+  /** Leave out for one-time prices. */
+  recurring?: {
+    interval: "day" | "week" | "month" | "year";
+    intervalCount?: number;
+  };
+  nickname?: string;
+  metadata?: Record<string, string>;
+};
+
+/**
+ * A change `syncCatalog` makes, or would make in a dry run. Stripe prices
+ * can't change their amount, currency or interval, so such prices are
+ * replaced: a new price takes over the lookup key and the old one is
+ * archived.
+ */
+export type CatalogChange =
+  | { type: "create_product"; productId: string }
+  | { type: "update_product"; productId: string; fields: string[] }
+  | { type: "create_price"; productId: string; lookupKey: string }
+  | {
+      type: "update_price";
+      productId: string;
+      lookupKey: string;
+      stripePriceId: string;
+      fields: string[];
+    }
+  | {
+      type: "replace_price";
+      productId: string;
+      lookupKey: string;
+      stripePriceId: string;
+      fields: string[];
+    }
+  | {
+      type: "archive_price";
+      productId: string;
+      stripePriceId: string;
+      lookupKey?: string;
+    };
+
+/**
+ * Outcome of `syncCatalog`.
+ */
+export type CatalogSyncResult = {
+  dryRun: boolean;
+  changes: CatalogChange[];
+};
+
+/**
+ * Features and limits granted by a price or a product.
+ */
+export type EntitlementGrant = {
+  features: string[];
+  /** Numeric limits, e.g. `{ projects: 10 }`. */
+  limits?: Record<string, number>;
+};
+
+/**
+ * Everything an org or a user is entitled to. When several subscriptions set
+ * the same limit, the highest value wins.
+ */
+export type Entitlements = {
+  features: string[];
+  limits: Record<string, number>;
+};
+
 // Webhook Event Handler Types
 
 /**
  * Context passed to webhook event handlers.
- * This is a mutation context since handlers need to modify data.
+ * Handlers run inside your app's http action (or the internal action that
+ * processes events in async mode), so they get the full action context with
+ * `runAction`, `scheduler` and `storage`.
  */
-export type WebhookEventContext = RunMutationCtx;
+export type WebhookEventContext<
+  DataModel extends GenericDataModel = GenericDataModel,
+> = GenericActionCtx<DataModel>;
 
 /**
  * Handler function for a specific Stripe webhook event.
- * Receives the mutation context and the full Stripe event object.
+ * Receives the action context and the full Stripe event object.
  */
-export type StripeEventHandler<T extends Stripe.Event.Type = Stripe.Event.Type> = (
-  ctx: WebhookEventContext,
+export type StripeEventHandler<
+  T extends Stripe.Event.Type = Stripe.Event.Type,
+  DataModel extends GenericDataModel = GenericDataModel,
+> = (
+  ctx: WebhookEventContext<DataModel>,
   event: Stripe.Event & { type: T }
 ) => Promise<void>;
 
+/**
+ * Runs the component's default database sync for the event being handled.
+ */
+export type DefaultEventHandler = () => Promise<void>;
+
+/**
+ * Handler that replaces the default sync for a specific event.
+ * It receives the default implementation so it can still run it, e.g.
+ * conditionally.
+ */
+export type StripeEventReplaceHandler<
+  T extends Stripe.Event.Type = Stripe.Event.Type,
+  DataModel extends GenericDataModel = GenericDataModel,
+> = (
+  ctx: WebhookEventContext<DataModel>,
+  event: Stripe.Event & { type: T },
+  defaultHandler: DefaultEventHandler
+) => Promise<void>;
+
+/**
+ * Controls how a custom handler runs relative to the default sync:
+ * - `before`: runs before the default sync
+ * - `after`: runs after the default sync (same as passing a function)
+ * - `replace`: runs instead of the default sync
+ * - `skip`: the default sync doesn't run and no handler is called
+ */
+export type StripeEventHandlerOptions<
+  T extends Stripe.Event.Type = Stripe.Event.Type,
+  DataModel extends GenericDataModel = GenericDataModel,
+> =
+  | { mode: "before" | "after"; handler: StripeEventHandler<T, DataModel> }
+  | { mode: "replace"; handler: StripeEventReplaceHandler<T, DataModel> }
+  | { mode: "skip" };
+
 /**
  * Map of event types to their handlers.
- * Users can provide handlers for any Stripe webhook event type.
+ * Users can provide handlers for any Stripe webhook event type, either as a
+ * function that runs after the default sync or with explicit options.
  */
-export type StripeEventHandlers = {
-  [K in Stripe.Event.Type]?: StripeEventHandler<K>;
+export type StripeEventHandlers<
+  DataModel extends GenericDataModel = GenericDataModel,
+> = {
+  [K in Stripe.Event.Type]?:
+    | StripeEventHandler<K, DataModel>
+    | StripeEventHandlerOptions<K, DataModel>;
 };
 
 /**
  * Configuration for webhook registration.
+ * Pass your app's `DataModel` to type the handlers' `ctx`.
  */
-export type RegisterRoutesConfig = {
+export type RegisterRoutesConfig<
+  DataModel extends GenericDataModel = GenericDataModel,
+> = {
   /**
    * Optional webhook path. Defaults to "/stripe/webhook"
    */
   webhookPath?: string;
+
+  /**
+   * Optional signing secret(s) for this webhook path. Overrides the
+   * `STRIPE_WEBHOOK_SECRET` option, which is useful when separate Stripe
+   * endpoints (e.g. test and live) post to different paths.
+   */
+  webhookSecret?: string | string[];
+
+  /**
+   * Optional mode to accept events from. When set, events whose `livemode`
+   * doesn't match are rejected with a 400 and not synced, e.g. set it to
+   * `true` in production so test mode events can't mix with live data.
+   */
+  livemode?: boolean;
   
   /**
-   * Optional event handlers that run after default processing.
-   * The component will handle database syncing automatically,
-   * and then call your custom handlers.
+   * Optional event handlers. By default they run after default processing:
+   * the component handles database syncing automatically, and then calls
+   * your custom handlers. Use `StripeEventHandlerOptions` to run a handler
+   * before the default sync, replace it, or skip it.
    */
-  events?: StripeEventHandlers;
+  events?: StripeEventHandlers<DataModel>;
 
   /**
    * Optional generic event handler that runs for all events.
    * This runs after default processing and before specific event handlers.
    */
-  onEvent?: StripeEventHandler;
+  onEvent?: StripeEventHandler<Stripe.Event.Type, DataModel>;
+
+  /**
+   * Optional asynchronous processing. When set, the webhook route only
+   * verifies the signature, stores the raw event and responds with 200.
+   * The event is then processed by `processor` through the Convex scheduler,
+   * and retried with exponential backoff if processing throws.
+   */
+  async?: AsyncProcessingConfig;
+
+  /**
+   * Optional hook for `customer.subscription.trial_will_end`, which Stripe
+   * sends three days before a trial ends. Runs after the default sync, e.g.
+   * to email the customer.
+   */
+  onTrialWillEnd?: (
+    ctx: WebhookEventContext<DataModel>,
+    trial: TrialWillEnd,
+    event: Stripe.CustomerSubscriptionTrialWillEndEvent
+  ) => Promise<void>;
+
+  /**
+   * Optional app mutation, e.g. `internal.billing.syncSubscription`, that the
+   * component calls inside the same transaction as each subscription write.
+   * Your tables and the component's commit together, or not at all.
+   * Validate its args with `vSubscriptionSyncArgs`.
+   */
+  onSubscriptionSync?: FunctionReference<
+    "mutation",
+    "internal",
+    SubscriptionSyncArgs
+  >;
+};
+
+/**
+ * A trial that's about to end, passed to `onTrialWillEnd`.
+ */
+export type TrialWillEnd = {
+  subscription: Stripe.Subscription;
+  /** End of the trial, in seconds since the epoch. */
+  trialEnd: number;
+  /** The synced customer, or null if it isn't synced yet. */
+  customer: OpaqueIds<Doc<"customers">> | null;
+};
+
+/**
+ * Arguments passed to the `onSubscriptionSync` mutation.
+ */
+export type SubscriptionSyncArgs = {
+  /** The event being synced. Unset for writes made through the Stripe API. */
+  eventId?: string;
+  /** The event's type. Unset for writes made through the Stripe API. */
+  eventType?: string;
+  /** The subscription row as written by the sync. */
+  subscription: OpaqueIds<Doc<"subscriptions">>;
+};
+
+/**
+ * Configuration for asynchronous webhook processing.
+ */
+export type AsyncProcessingConfig = {
+  /**
+   * Reference to the internal action created with
+   * `stripe.webhookProcessor(config)`, e.g. `internal.http.processStripeEvent`.
+   */
+  processor: FunctionReference<"action", "internal", { stripeEventId: string }>;
+
+  /**
+   * Maximum number of processing attempts before the event is marked as
+   * failed. Defaults to 5.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds. Each following retry
+   * doubles the delay. Defaults to 1000.
+   */
+  initialBackoffMs?: number;
+};
+
+/**
+ * Amounts from Stripe's upcoming invoice preview for a price change, in the
+ * smallest currency unit (e.g. cents).
+ */
+export type SubscriptionChangePreview = {
+  /** Pass to `changeSubscriptionPrice` to charge exactly these amounts. */
+  prorationDate: number;
+  currency: string;
+  subtotal: number;
+  total: number;
+  amountDue: number;
+  /** Sum of the proration lines: credit for unused time and new charges. */
+  prorationAmount: number;
+  lines: {
+    description: string | null;
+    amount: number;
+    proration: boolean;
+    periodStart: number;
+    periodEnd: number;
+  }[];
+};
+
+/**
+ * A phase to add to a subscription schedule. Without `endDate` or `duration`
+ * the phase lasts one billing period. Each item's price is given by
+ * `priceId` or by its `lookupKey`.
+ */
+export type SubscriptionSchedulePhaseInput = {
+  items: { priceId?: string; lookupKey?: string; quantity?: number }[];
+  /** When the phase ends, in seconds since the epoch. */
+  endDate?: number;
+  /** How long the phase lasts, e.g. `{ interval: "month", intervalCount: 3 }`. */
+  duration?: {
+    interval: "day" | "week" | "month" | "year";
+    intervalCount?: number;
+  };
+};
+
+/**
+ * Outcome of replaying a stored webhook event.
+ */
+export type ReplayEventResult = {
+  stripeEventId: string;
+  /** `in_progress` when another attempt is processing the event right now. */
+  status: "processed" | "failed" | "in_progress";
+  error?: string;
 };
 
 /**
@@ -29,6 +29,12 @@ declare const fullApi: ApiFromModules<{
 }>;
 export type Mounts = {
   public: {
+    claimWebhookEvent: FunctionReference<
+      "mutation",
+      "public",
+      { stripeEventId: string },
+      { attempts: number; payload: string } | null
+    >;
     createOrUpdateCustomer: FunctionReference<
       "mutation",
       "public",
@@ -40,10 +46,23 @@ export type Mounts = {
       },
       string
     >;
+    enqueueWebhookEvent: FunctionReference<
+      "mutation",
+      "public",
+      {
+        livemode: boolean;
+        payload: string;
+        processor?: string;
+        signingSecretIndex?: number;
+        stripeEventId: string;
+        type: string;
+      },
+      { duplicate: boolean }
+    >;
     getAllData: FunctionReference<
       "query",
       "public",
-      {},
+      { livemode?: boolean },
       {
         checkoutSessions: Array<any>;
         customers: Array<any>;
@@ -52,6 +71,35 @@ export type Mounts = {
         subscriptions: Array<any>;
       }
     >;
+    getBillingHealth: FunctionReference<
+      "query",
+      "public",
+      { gracePeriodDays: number; stripeSubscriptionId: string },
+      {
+        failedPaymentAttempts: number;
+        graceEndsAt?: number;
+        nextPaymentAttempt?: number;
+        paymentFailedAt?: number;
+        state: "healthy" | "grace" | "restricted" | "suspended";
+        status: string;
+      } | null
+    >;
+    getCancellationReasons: FunctionReference<
+      "query",
+      "public",
+      { from: number; livemode?: boolean; to: number },
+      {
+        byFeedback: Array<{ count: number; feedback: string }>;
+        byReason: Array<{ count: number; reason: string }>;
+        comments: Array<{
+          canceledAt: number;
+          comment: string;
+          feedback?: string;
+          stripeSubscriptionId: string;
+        }>;
+        total: number;
+      }
+    >;
     getCustomer: FunctionReference<
       "query",
       "public",
@@ -60,11 +108,29 @@ export type Mounts = {
         _creationTime: number;
         _id: string;
         email?: string;
+        lastEventCreated?: number;
+        livemode?: boolean;
         metadata?: any;
         name?: string;
         stripeCustomerId: string;
       } | null
     >;
+    getEntitlementSources: FunctionReference<
+      "query",
+      "public",
+      { livemode?: boolean; orgId?: string; userId?: string },
+      {
+        featureLookupKeys: Array<string>;
+        subscriptions: Array<{
+          lookupKeys: Array<string>;
+          priceIds: Array<string>;
+          productIds: Array<string>;
+          status: string;
+          stripeCustomerId: string;
+          stripeSubscriptionId: string;
+        }>;
+      }
+    >;
     getPayment: FunctionReference<
       "query",
       "public",
@@ -75,6 +141,7 @@ export type Mounts = {
         amount: number;
         created: number;
         currency: string;
+        livemode?: boolean;
         metadata?: any;
         orgId?: string;
         status: string;
@@ -83,6 +150,48 @@ export type Mounts = {
         userId?: string;
       } | null
     >;
+    getPrice: FunctionReference<
+      "query",
+      "public",
+      { stripePriceId: string },
+      {
+        _creationTime: number;
+        _id: string;
+        active: boolean;
+        currency: string;
+        lastEventCreated?: number;
+        livemode?: boolean;
+        lookupKey?: string;
+        metadata?: any;
+        nickname?: string;
+        recurring?: { interval: string; intervalCount: number };
+        stripePriceId: string;
+        stripeProductId: string;
+        type: string;
+        unitAmount?: number;
+      } | null
+    >;
+    getPriceByLookupKey: FunctionReference<
+      "query",
+      "public",
+      { livemode?: boolean; lookupKey: string },
+      {
+        _creationTime: number;
+        _id: string;
+        active: boolean;
+        currency: string;
+        lastEventCreated?: number;
+        livemode?: boolean;
+        lookupKey?: string;
+        metadata?: any;
+        nickname?: string;
+        recurring?: { interval: string; intervalCount: number };
+        stripePriceId: string;
+        stripeProductId: string;
+        type: string;
+        unitAmount?: number;
+      } | null
+    >;
     getSubscription: FunctionReference<
       "query",
       "public",
@@ -90,41 +199,202 @@ export type Mounts = {
       {
         _creationTime: number;
         _id: string;
+        billingCycleAnchor?: number;
+        cancelAt?: number;
         cancelAtPeriodEnd: boolean;
+        canceledAt?: number;
+        cancellationDetails?: {
+          comment?: string;
+          feedback?: string;
+          reason?: string;
+        };
+        collectionMethod?: string;
         currentPeriodEnd: number;
+        currentPeriodStart?: number;
+        defaultPaymentMethod?: string;
+        endedAt?: number;
+        failedPaymentAttempts?: number;
+        lastEventCreated?: number;
+        latestInvoiceId?: string;
+        livemode?: boolean;
+        lookupKey?: string;
         metadata?: any;
+        nextPaymentAttempt?: number;
         orgId?: string;
+        pauseCollection?: { behavior: string; resumesAt?: number };
+        paymentFailedAt?: number;
         priceId: string;
         quantity?: number;
+        startDate?: number;
         status: string;
         stripeCustomerId: string;
         stripeSubscriptionId: string;
+        trialEnd?: number;
+        trialStart?: number;
         userId?: string;
       } | null
     >;
     getSubscriptionByOrgId: FunctionReference<
       "query",
       "public",
-      { orgId: string },
+      { livemode?: boolean; orgId: string },
       {
         _creationTime: number;
         _id: string;
+        billingCycleAnchor?: number;
+        cancelAt?: number;
         cancelAtPeriodEnd: boolean;
+        canceledAt?: number;
+        cancellationDetails?: {
+          comment?: string;
+          feedback?: string;
+          reason?: string;
+        };
+        collectionMethod?: string;
         currentPeriodEnd: number;
+        currentPeriodStart?: number;
+        defaultPaymentMethod?: string;
+        endedAt?: number;
+        failedPaymentAttempts?: number;
+        lastEventCreated?: number;
+        latestInvoiceId?: string;
+        livemode?: boolean;
+        lookupKey?: string;
         metadata?: any;
+        nextPaymentAttempt?: number;
         orgId?: string;
+        pauseCollection?: { behavior: string; resumesAt?: number };
+        paymentFailedAt?: number;
         priceId: string;
         quantity?: number;
+        startDate?: number;
         status: string;
         stripeCustomerId: string;
         stripeSubscriptionId: string;
+        trialEnd?: number;
+        trialStart?: number;
         userId?: string;
       } | null
     >;
+    getSubscriptionHistory: FunctionReference<
+      "query",
+      "public",
+      {
+        field?: "status" | "priceId" | "quantity" | "cancelAtPeriodEnd";
+        stripeSubscriptionId: string;
+      },
+      Array<{
+        _creationTime: number;
+        _id: string;
+        field: "status" | "priceId" | "quantity" | "cancelAtPeriodEnd";
+        from?: string | number | boolean;
+        stripeEventId?: string;
+        stripeSubscriptionId: string;
+        timestamp: number;
+        to?: string | number | boolean;
+      }>
+    >;
+    getSubscriptionSchedule: FunctionReference<
+      "query",
+      "public",
+      { stripeScheduleId: string },
+      {
+        _creationTime: number;
+        _id: string;
+        canceledAt?: number;
+        currentPhase?: { endDate: number; startDate: number };
+        endBehavior: string;
+        lastEventCreated?: number;
+        livemode?: boolean;
+        metadata?: any;
+        phases: Array<{
+          endDate: number;
+          items: Array<{ priceId: string; quantity?: number }>;
+          startDate: number;
+        }>;
+        releasedAt?: number;
+        releasedSubscriptionId?: string;
+        status: string;
+        stripeCustomerId: string;
+        stripeScheduleId: string;
+        stripeSubscriptionId?: string;
+      } | null
+    >;
+    getSubscriptionScheduleBySubscriptionId: FunctionReference<
+      "query",
+      "public",
+      { stripeSubscriptionId: string },
+      {
+        _creationTime: number;
+        _id: string;
+        canceledAt?: number;
+        currentPhase?: { endDate: number; startDate: number };
+        endBehavior: string;
+        lastEventCreated?: number;
+        livemode?: boolean;
+        metadata?: any;
+        phases: Array<{
+          endDate: number;
+          items: Array<{ priceId: string; quantity?: number }>;
+          startDate: number;
+        }>;
+        releasedAt?: number;
+        releasedSubscriptionId?: string;
+        status: string;
+        stripeCustomerId: string;
+        stripeScheduleId: string;
+        stripeSubscriptionId?: string;
+      } | null
+    >;
+    getTrialStatus: FunctionReference<
+      "query",
+      "public",
+      { stripeSubscriptionId: string },
+      {
+        isTrialing: boolean;
+        trialDaysRemaining: number;
+        trialEnd?: number;
+        trialStart?: number;
+      } | null
+    >;
+    getWebhookEvent: FunctionReference<
+      "query",
+      "public",
+      { stripeEventId: string },
+      {
+        _creationTime: number;
+        _id: string;
+        attempts: number;
+        claimedAt?: number;
+        error?: string;
+        errorStack?: string;
+        livemode: boolean;
+        nextAttemptAt?: number;
+        payload?: string;
+        processedAt?: number;
+        receivedAt: number;
+        signingSecretIndex?: number;
+        status: "pending" | "processing" | "processed" | "failed";
+        stripeEventId: string;
+        type: string;
+      } | null
+    >;
+    handleActiveEntitlementSummaryUpdated: FunctionReference<
+      "mutation",
+      "public",
+      {
+        eventCreated?: number;
+        featureLookupKeys: Array<string>;
+        livemode?: boolean;
+        stripeCustomerId: string;
+      },
+      null
+    >;
     handleCheckoutSessionCompleted: FunctionReference<
       "mutation",
       "public",
       {
+        livemode?: boolean;
         metadata?: any;
         mode: string;
         stripeCheckoutSessionId: string;
@@ -137,6 +407,8 @@ export type Mounts = {
       "public",
       {
         email?: string;
+        eventCreated?: number;
+        livemode?: boolean;
         metadata?: any;
         name?: string;
         stripeCustomerId: string;
@@ -148,6 +420,8 @@ export type Mounts = {
       "public",
       {
         email?: string;
+        eventCreated?: number;
+        livemode?: boolean;
         metadata?: any;
         name?: string;
         stripeCustomerId: string;
@@ -161,6 +435,8 @@ export type Mounts = {
         amountDue: number;
         amountPaid: number;
         created: number;
+        eventCreated?: number;
+        livemode?: boolean;
         status: string;
         stripeCustomerId: string;
         stripeInvoiceId: string;
@@ -171,13 +447,24 @@ export type Mounts = {
     handleInvoicePaid: FunctionReference<
       "mutation",
       "public",
-      { amountPaid: number; stripeInvoiceId: string },
+      {
+        amountPaid: number;
+        eventCreated?: number;
+        stripeInvoiceId: string;
+        stripeSubscriptionId?: string;
+      },
       null
     >;
     handleInvoicePaymentFailed: FunctionReference<
       "mutation",
       "public",
-      { stripeInvoiceId: string },
+      {
+        attemptCount?: number;
+        eventCreated?: number;
+        nextPaymentAttempt?: number;
+        stripeInvoiceId: string;
+        stripeSubscriptionId?: string;
+      },
       null
     >;
     handlePaymentIntentSucceeded: FunctionReference<
@@ -187,6 +474,7 @@ export type Mounts = {
         amount: number;
         created: number;
         currency: string;
+        livemode?: boolean;
         metadata?: any;
         status: string;
         stripeCustomerId?: string;
@@ -194,50 +482,257 @@ export type Mounts = {
       },
       null
     >;
+    handlePriceDeleted: FunctionReference<
+      "mutation",
+      "public",
+      { stripePriceId: string },
+      null
+    >;
+    handlePriceUpdated: FunctionReference<
+      "mutation",
+      "public",
+      {
+        active: boolean;
+        currency: string;
+        eventCreated?: number;
+        livemode?: boolean;
+        lookupKey?: string;
+        metadata?: any;
+        nickname?: string;
+        recurring?: { interval: string; intervalCount: number };
+        stripePriceId: string;
+        stripeProductId: string;
+        type: string;
+        unitAmount?: number;
+      },
+      null
+    >;
+    handleProductDeleted: FunctionReference<
+      "mutation",
+      "public",
+      { stripeProductId: string },
+      null
+    >;
+    handleProductUpdated: FunctionReference<
+      "mutation",
+      "public",
+      {
+        active: boolean;
+        defaultPriceId?: string;
+        description?: string;
+        eventCreated?: number;
+        livemode?: boolean;
+        metadata?: any;
+        name: string;
+        stripeProductId: string;
+      },
+      null
+    >;
     handleSubscriptionCreated: FunctionReference<
       "mutation",
       "public",
       {
+        billingCycleAnchor?: number;
+        cancelAt?: number;
         cancelAtPeriodEnd: boolean;
+        canceledAt?: number;
+        cancellationDetails?: {
+          comment?: string;
+          feedback?: string;
+          reason?: string;
+        };
+        collectionMethod?: string;
         currentPeriodEnd: number;
+        currentPeriodStart?: number;
+        defaultPaymentMethod?: string;
+        endedAt?: number;
+        eventCreated?: number;
+        eventId?: string;
+        items?: Array<{
+          currentPeriodEnd: number;
+          currentPeriodStart: number;
+          lookupKey?: string;
+          metadata?: any;
+          priceId: string;
+          productId: string;
+          quantity?: number;
+          stripeSubscriptionItemId: string;
+        }>;
+        latestInvoiceId?: string;
+        livemode?: boolean;
+        lookupKey?: string;
         metadata?: any;
+        pauseCollection?: { behavior: string; resumesAt?: number };
         priceId: string;
         quantity?: number;
+        startDate?: number;
         status: string;
         stripeCustomerId: string;
         stripeSubscriptionId: string;
+        syncHook?: { eventId?: string; eventType?: string; handle: string };
+        trialEnd?: number;
+        trialStart?: number;
       },
       null
     >;
     handleSubscriptionDeleted: FunctionReference<
       "mutation",
       "public",
-      { stripeSubscriptionId: string },
+      {
+        billingCycleAnchor?: number;
+        cancelAt?: number;
+        cancelAtPeriodEnd?: boolean;
+        canceledAt?: number;
+        cancellationDetails?: {
+          comment?: string;
+          feedback?: string;
+          reason?: string;
+        };
+        collectionMethod?: string;
+        currentPeriodEnd?: number;
+        currentPeriodStart?: number;
+        defaultPaymentMethod?: string;
+        endedAt?: number;
+        eventCreated?: number;
+        eventId?: string;
+        items?: Array<{
+          currentPeriodEnd: number;
+          currentPeriodStart: number;
+          lookupKey?: string;
+          metadata?: any;
+          priceId: string;
+          productId: string;
+          quantity?: number;
+          stripeSubscriptionItemId: string;
+        }>;
+        latestInvoiceId?: string;
+        lookupKey?: string;
+        metadata?: any;
+        pauseCollection?: { behavior: string; resumesAt?: number };
+        priceId?: string;
+        quantity?: number;
+        startDate?: number;
+        status?: string;
+        stripeSubscriptionId: string;
+        syncHook?: { eventId?: string; eventType?: string; handle: string };
+        trialEnd?: number;
+        trialStart?: number;
+      },
+      null
+    >;
+    handleSubscriptionScheduleUpdated: FunctionReference<
+      "mutation",
+      "public",
+      {
+        canceledAt?: number;
+        currentPhase?: { endDate: number; startDate: number };
+        endBehavior: string;
+        eventCreated?: number;
+        livemode?: boolean;
+        metadata?: any;
+        phases: Array<{
+          endDate: number;
+          items: Array<{ priceId: string; quantity?: number }>;
+          startDate: number;
+        }>;
+        releasedAt?: number;
+        releasedSubscriptionId?: string;
+        status: string;
+        stripeCustomerId: string;
+        stripeScheduleId: string;
+        stripeSubscriptionId?: string;
+      },
       null
     >;
     handleSubscriptionUpdated: FunctionReference<
       "mutation",
       "public",
       {
+        billingCycleAnchor?: number;
+        cancelAt?: number;
         cancelAtPeriodEnd: boolean;
+        canceledAt?: number;
+        cancellationDetails?: {
+          comment?: string;
+          feedback?: string;
+          reason?: string;
+        };
+        collectionMethod?: string;
         currentPeriodEnd: number;
+        currentPeriodStart?: number;
+        defaultPaymentMethod?: string;
+        endedAt?: number;
+        eventCreated?: number;
+        eventId?: string;
+        items?: Array<{
+          currentPeriodEnd: number;
+          currentPeriodStart: number;
+          lookupKey?: string;
+          metadata?: any;
+          priceId: string;
+          productId: string;
+          quantity?: number;
+          stripeSubscriptionItemId: string;
+        }>;
+        latestInvoiceId?: string;
+        livemode?: boolean;
+        lookupKey?: string;
         metadata?: any;
+        pauseCollection?: { behavior: string; resumesAt?: number };
+        priceId?: string;
         quantity?: number;
+        startDate?: number;
         status: string;
+        stripeCustomerId?: string;
         stripeSubscriptionId: string;
+        syncHook?: { eventId?: string; eventType?: string; handle: string };
+        trialEnd?: number;
+        trialStart?: number;
       },
       null
     >;
+    isEventProcessed: FunctionReference<
+      "query",
+      "public",
+      { stripeEventId: string },
+      boolean
+    >;
+    listFailedEvents: FunctionReference<
+      "query",
+      "public",
+      { limit?: number },
+      Array<{
+        _creationTime: number;
+        _id: string;
+        attempts: number;
+        claimedAt?: number;
+        error?: string;
+        errorStack?: string;
+        livemode: boolean;
+        nextAttemptAt?: number;
+        payload?: string;
+        processedAt?: number;
+        receivedAt: number;
+        signingSecretIndex?: number;
+        status: "pending" | "processing" | "processed" | "failed";
+        stripeEventId: string;
+        type: string;
+      }>
+    >;
     listInvoices: FunctionReference<
       "query",
       "public",
-      { stripeCustomerId: string },
+      { livemode?: boolean; stripeCustomerId: string },
       Array<{
         _creationTime: number;
         _id: string;
         amountDue: number;
         amountPaid: number;
+        attemptCount?: number;
         created: number;
+        lastEventCreated?: number;
+        livemode?: boolean;
+        nextPaymentAttempt?: number;
         status: string;
         stripeCustomerId: string;
         stripeInvoiceId: string;
@@ -247,13 +742,14 @@ export type Mounts = {
     listPayments: FunctionReference<
       "query",
       "public",
-      { stripeCustomerId: string },
+      { livemode?: boolean; stripeCustomerId: string },
       Array<{
         _creationTime: number;
         _id: string;
         amount: number;
         created: number;
         currency: string;
+        livemode?: boolean;
         metadata?: any;
         orgId?: string;
         status: string;
@@ -265,13 +761,14 @@ export type Mounts = {
     listPaymentsByOrgId: FunctionReference<
       "query",
       "public",
-      { orgId: string },
+      { livemode?: boolean; orgId: string },
       Array<{
         _creationTime: number;
         _id: string;
         amount: number;
         created: number;
         currency: string;
+        livemode?: boolean;
         metadata?: any;
         orgId?: string;
         status: string;
@@ -283,13 +780,14 @@ export type Mounts = {
     listPaymentsByUserId: FunctionReference<
       "query",
       "public",
-      { userId: string },
+      { livemode?: boolean; userId: string },
       Array<{
         _creationTime: number;
         _id: string;
         amount: number;
         created: number;
         currency: string;
+        livemode?: boolean;
         metadata?: any;
         orgId?: string;
         status: string;
@@ -298,44 +796,176 @@ export type Mounts = {
         userId?: string;
       }>
     >;
+    listPrices: FunctionReference<
+      "query",
+      "public",
+      { active?: boolean; livemode?: boolean; stripeProductId?: string },
+      Array<{
+        _creationTime: number;
+        _id: string;
+        active: boolean;
+        currency: string;
+        lastEventCreated?: number;
+        livemode?: boolean;
+        lookupKey?: string;
+        metadata?: any;
+        nickname?: string;
+        recurring?: { interval: string; intervalCount: number };
+        stripePriceId: string;
+        stripeProductId: string;
+        type: string;
+        unitAmount?: number;
+      }>
+    >;
+    listProducts: FunctionReference<
+      "query",
+      "public",
+      { active?: boolean; livemode?: boolean },
+      Array<{
+        _creationTime: number;
+        _id: string;
+        active: boolean;
+        defaultPriceId?: string;
+        description?: string;
+        lastEventCreated?: number;
+        livemode?: boolean;
+        metadata?: any;
+        name: string;
+        stripeProductId: string;
+      }>
+    >;
+    listSubscriptionItems: FunctionReference<
+      "query",
+      "public",
+      { stripeSubscriptionId: string },
+      Array<{
+        _creationTime: number;
+        _id: string;
+        currentPeriodEnd: number;
+        currentPeriodStart: number;
+        livemode?: boolean;
+        lookupKey?: string;
+        metadata?: any;
+        priceId: string;
+        productId: string;
+        quantity?: number;
+        stripeSubscriptionId: string;
+        stripeSubscriptionItemId: string;
+      }>
+    >;
     listSubscriptions: FunctionReference<
       "query",
       "public",
-      { stripeCustomerId: string },
+      { livemode?: boolean; stripeCustomerId: string },
       Array<{
         _creationTime: number;
         _id: string;
+        billingCycleAnchor?: number;
+        cancelAt?: number;
         cancelAtPeriodEnd: boolean;
+        canceledAt?: number;
+        cancellationDetails?: {
+          comment?: string;
+          feedback?: string;
+          reason?: string;
+        };
+        collectionMethod?: string;
         currentPeriodEnd: number;
+        currentPeriodStart?: number;
+        defaultPaymentMethod?: string;
+        endedAt?: number;
+        failedPaymentAttempts?: number;
+        lastEventCreated?: number;
+        latestInvoiceId?: string;
+        livemode?: boolean;
+        lookupKey?: string;
         metadata?: any;
+        nextPaymentAttempt?: number;
         orgId?: string;
+        pauseCollection?: { behavior: string; resumesAt?: number };
+        paymentFailedAt?: number;
         priceId: string;
         quantity?: number;
+        startDate?: number;
         status: string;
         stripeCustomerId: string;
         stripeSubscriptionId: string;
+        trialEnd?: number;
+        trialStart?: number;
         userId?: string;
       }>
     >;
     listSubscriptionsByUserId: FunctionReference<
       "query",
       "public",
-      { userId: string },
+      { livemode?: boolean; userId: string },
       Array<{
         _creationTime: number;
         _id: string;
+        billingCycleAnchor?: number;
+        cancelAt?: number;
         cancelAtPeriodEnd: boolean;
+        canceledAt?: number;
+        cancellationDetails?: {
+          comment?: string;
+          feedback?: string;
+          reason?: string;
+        };
+        collectionMethod?: string;
         currentPeriodEnd: number;
+        currentPeriodStart?: number;
+        defaultPaymentMethod?: string;
+        endedAt?: number;
+        failedPaymentAttempts?: number;
+        lastEventCreated?: number;
+        latestInvoiceId?: string;
+        livemode?: boolean;
+        lookupKey?: string;
         metadata?: any;
+        nextPaymentAttempt?: number;
         orgId?: string;
+        pauseCollection?: { behavior: string; resumesAt?: number };
+        paymentFailedAt?: number;
         priceId: string;
         quantity?: number;
+        startDate?: number;
         status: string;
         stripeCustomerId: string;
         stripeSubscriptionId: string;
+        trialEnd?: number;
+        trialStart?: number;
         userId?: string;
       }>
     >;
+    markEventFailed: FunctionReference<
+      "mutation",
+      "public",
+      {
+        error: string;
+        errorStack?: string;
+        nextAttemptAt?: number;
+        stripeEventId: string;
+      },
+      null
+    >;
+    markEventProcessed: FunctionReference<
+      "mutation",
+      "public",
+      { stripeEventId: string },
+      null
+    >;
+    recordWebhookEvent: FunctionReference<
+      "mutation",
+      "public",
+      {
+        livemode: boolean;
+        payload?: string;
+        signingSecretIndex?: number;
+        stripeEventId: string;
+        type: string;
+      },
+      { duplicate: boolean }
+    >;
     updatePaymentCustomer: FunctionReference<
       "mutation",
       "public",
@@ -1,5 +1,5 @@
 import { convexTest } from "convex-test";
-import { expect, test } from "vitest";
+import { expect, test, vi } from "vitest";
 import { api, internal } from "./_generated/api.js";
 import schema from "./schema.js";
 import { modules } from "./setup.test.js";
@@ -127,6 +127,127 @@ test("list subscriptions for customer", async () => {
   expect(subscriptions.map((s: any) => s.stripeSubscriptionId)).toContain("sub_2");
 });
 
+test("list subscriptions filtered by livemode", async () => {
+  const t = convexTest(schema, modules);
+
+  for (const livemode of [true, false]) {
+    await t.mutation(api.public.handleSubscriptionCreated, {
+      stripeSubscriptionId: `sub_${livemode ? "live" : "test"}`,
+      stripeCustomerId: "cus_modes",
+      status: "active",
+      currentPeriodEnd: Date.now(),
+      cancelAtPeriodEnd: false,
+      priceId: "price_1",
+      livemode,
+    });
+  }
+
+  const live = await t.query(api.public.listSubscriptions, {
+    stripeCustomerId: "cus_modes",
+    livemode: true,
+  });
+  expect(live.map((s) => s.stripeSubscriptionId)).toEqual(["sub_live"]);
+
+  const all = await t.query(api.public.listSubscriptions, {
+    stripeCustomerId: "cus_modes",
+  });
+  expect(all).toHaveLength(2);
+
+  const testData = await t.query(api.public.getAllData, { livemode: false });
+  expect(testData.subscriptions).toHaveLength(1);
+  expect(testData.subscriptions[0].stripeSubscriptionId).toBe("sub_test");
+});
+
+test("subscription items are synced with the subscription", async () => {
+  const t = convexTest(schema, modules);
+  const item = (id: string, priceId: string, quantity?: number) => ({
+    stripeSubscriptionItemId: id,
+    priceId,
+    productId: `prod_${priceId}`,
+    quantity,
+    currentPeriodStart: 1700000000,
+    currentPeriodEnd: 1702592000,
+  });
+
+  await t.mutation(api.public.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_items",
+    stripeCustomerId: "cus_items",
+    status: "active",
+    currentPeriodEnd: 1702592000,
+    cancelAtPeriodEnd: false,
+    priceId: "price_base",
+    items: [
+      item("si_base", "price_base", 1),
+      item("si_seats", "price_seats", 3),
+      item("si_usage", "price_usage"),
+    ],
+  });
+
+  // The seat add-on changes and the metered item is removed
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_items",
+    status: "active",
+    currentPeriodEnd: 1702592000,
+    cancelAtPeriodEnd: false,
+    items: [item("si_base", "price_base", 1), item("si_seats", "price_seats", 5)],
+  });
+
+  const items = await t.query(api.public.listSubscriptionItems, {
+    stripeSubscriptionId: "sub_items",
+  });
+  expect(
+    items.map((i) => [i.stripeSubscriptionItemId, i.productId, i.quantity])
+  ).toEqual([
+    ["si_base", "prod_price_base", 1],
+    ["si_seats", "prod_price_seats", 5],
+  ]);
+});
+
+test("trial status of a subscription", async () => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  const t = convexTest(schema, modules);
+  const now = Math.floor(Date.now() / 1000);
+  const day = 24 * 60 * 60;
+
+  await t.mutation(api.public.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_trial",
+    stripeCustomerId: "cus_trial",
+    status: "trialing",
+    currentPeriodEnd: now + 10 * day,
+    cancelAtPeriodEnd: false,
+    priceId: "price_trial",
+    trialStart: now - 4 * day,
+    trialEnd: now + 10 * day - 60,
+  });
+  expect(
+    await t.query(api.public.getTrialStatus, {
+      stripeSubscriptionId: "sub_trial",
+    })
+  ).toEqual({
+    isTrialing: true,
+    trialStart: now - 4 * day,
+    trialEnd: now + 10 * day - 60,
+    trialDaysRemaining: 10,
+  });
+
+  // The trial converts to a paid subscription
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_trial",
+    status: "active",
+    currentPeriodEnd: now + 40 * day,
+    cancelAtPeriodEnd: false,
+    trialStart: now - 4 * day,
+    trialEnd: now,
+  });
+  const status = await t.query(api.public.getTrialStatus, {
+    stripeSubscriptionId: "sub_trial",
+  });
+  expect(status?.isTrialing).toBe(false);
+  expect(status?.trialDaysRemaining).toBe(0);
+  vi.useRealTimers();
+});
+
 test("update subscription metadata for custom lookups", async () => {
   const t = convexTest(schema, modules);
 
@@ -530,3 +651,577 @@ test("handlePaymentIntentSucceeded updates existing payment with customer", asyn
   expect(payment?.stripeCustomerId).toBe("cus_idempotent");
 });
 
+
+test("webhook event ledger skips duplicate deliveries", async () => {
+  const t = convexTest(schema, modules);
+
+  const first = await t.mutation(api.public.recordWebhookEvent, {
+    stripeEventId: "evt_ledger",
+    type: "customer.created",
+    livemode: false,
+  });
+  expect(first.duplicate).toBe(false);
+
+  // A failed delivery is retried rather than skipped
+  await t.mutation(api.public.markEventFailed, {
+    stripeEventId: "evt_ledger",
+    error: "handler crashed",
+  });
+  const retry = await t.mutation(api.public.recordWebhookEvent, {
+    stripeEventId: "evt_ledger",
+    type: "customer.created",
+    livemode: false,
+  });
+  expect(retry.duplicate).toBe(false);
+  expect(
+    await t.query(api.public.isEventProcessed, { stripeEventId: "evt_ledger" })
+  ).toBe(false);
+
+  await t.mutation(api.public.markEventProcessed, {
+    stripeEventId: "evt_ledger",
+  });
+
+  // Stripe redelivers the same event
+  const duplicate = await t.mutation(api.public.recordWebhookEvent, {
+    stripeEventId: "evt_ledger",
+    type: "customer.created",
+    livemode: false,
+  });
+  expect(duplicate.duplicate).toBe(true);
+
+  const event = await t.query(api.public.getWebhookEvent, {
+    stripeEventId: "evt_ledger",
+  });
+  expect(event?.status).toBe("processed");
+  expect(event?.attempts).toBe(2);
+  expect(event?.error).toBeUndefined();
+  expect(
+    await t.query(api.public.isEventProcessed, { stripeEventId: "evt_ledger" })
+  ).toBe(true);
+});
+
+test("webhook deliveries of an event being processed are skipped until its lease expires", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+  const args = {
+    stripeEventId: "evt_slow",
+    type: "customer.created",
+    livemode: false,
+  };
+
+  expect(await t.mutation(api.public.recordWebhookEvent, args)).toEqual({
+    duplicate: false,
+  });
+
+  // Stripe redelivers while a slow handler is still running
+  vi.advanceTimersByTime(60 * 1000);
+  expect(await t.mutation(api.public.recordWebhookEvent, args)).toEqual({
+    duplicate: true,
+  });
+
+  // The first attempt died without marking the event
+  vi.advanceTimersByTime(10 * 60 * 1000);
+  expect(await t.mutation(api.public.recordWebhookEvent, args)).toEqual({
+    duplicate: false,
+  });
+  const event = await t.query(api.public.getWebhookEvent, {
+    stripeEventId: "evt_slow",
+  });
+  expect(event).toMatchObject({ status: "processing", attempts: 2 });
+  vi.useRealTimers();
+});
+
+test("queued webhook events that stall or fail are processed again", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+  const args = {
+    stripeEventId: "evt_stalled",
+    type: "invoice.paid",
+    livemode: false,
+    payload: JSON.stringify({ id: "evt_stalled" }),
+  };
+
+  await t.mutation(api.public.enqueueWebhookEvent, args);
+  expect(
+    await t.mutation(api.public.claimWebhookEvent, {
+      stripeEventId: "evt_stalled",
+    })
+  ).toMatchObject({ attempts: 1 });
+  // Another processor can't claim it while the attempt runs
+  expect(
+    await t.mutation(api.public.claimWebhookEvent, {
+      stripeEventId: "evt_stalled",
+    })
+  ).toBeNull();
+  expect(await t.query(api.public.listFailedEvents, {})).toEqual([]);
+
+  // The processor timed out without marking the event
+  vi.advanceTimersByTime(11 * 60 * 1000);
+  expect(
+    (await t.query(api.public.listFailedEvents, {})).map(
+      (event) => event.stripeEventId
+    )
+  ).toEqual(["evt_stalled"]);
+  expect(await t.mutation(api.public.enqueueWebhookEvent, args)).toEqual({
+    duplicate: false,
+  });
+  expect(
+    await t.mutation(api.public.claimWebhookEvent, {
+      stripeEventId: "evt_stalled",
+    })
+  ).toMatchObject({ attempts: 2 });
+
+  // A redelivered failed event starts over
+  await t.mutation(api.public.markEventFailed, {
+    stripeEventId: "evt_stalled",
+    error: "handler crashed",
+  });
+  expect(await t.mutation(api.public.enqueueWebhookEvent, args)).toEqual({
+    duplicate: false,
+  });
+  expect(
+    await t.query(api.public.getWebhookEvent, { stripeEventId: "evt_stalled" })
+  ).toMatchObject({ status: "pending", attempts: 0 });
+  vi.useRealTimers();
+});
+
+test("out-of-order subscription updates are dropped", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.public.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_ordering",
+    stripeCustomerId: "cus_ordering",
+    status: "incomplete",
+    currentPeriodEnd: 1000,
+    cancelAtPeriodEnd: false,
+    priceId: "price_ordering",
+    eventCreated: 100,
+  });
+
+  // Newer event is applied
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_ordering",
+    status: "active",
+    currentPeriodEnd: 2000,
+    cancelAtPeriodEnd: false,
+    eventCreated: 300,
+  });
+
+  // Older event delivered late is dropped
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_ordering",
+    status: "past_due",
+    currentPeriodEnd: 1500,
+    cancelAtPeriodEnd: false,
+    eventCreated: 200,
+  });
+
+  const subscription = await t.query(api.public.getSubscription, {
+    stripeSubscriptionId: "sub_ordering",
+  });
+  expect(subscription?.status).toBe("active");
+  expect(subscription?.currentPeriodEnd).toBe(2000);
+  expect(subscription?.lastEventCreated).toBe(300);
+});
+
+test("out-of-order customer and invoice updates are dropped", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.public.handleCustomerCreated, {
+    stripeCustomerId: "cus_stale",
+    email: "first@example.com",
+    eventCreated: 100,
+  });
+  await t.mutation(api.public.handleCustomerUpdated, {
+    stripeCustomerId: "cus_stale",
+    email: "newest@example.com",
+    eventCreated: 300,
+  });
+  await t.mutation(api.public.handleCustomerUpdated, {
+    stripeCustomerId: "cus_stale",
+    email: "older@example.com",
+    eventCreated: 200,
+  });
+  const customer = await t.query(api.public.getCustomer, {
+    stripeCustomerId: "cus_stale",
+  });
+  expect(customer?.email).toBe("newest@example.com");
+
+  await t.mutation(api.public.handleInvoiceCreated, {
+    stripeInvoiceId: "in_stale",
+    stripeCustomerId: "cus_stale",
+    status: "open",
+    amountDue: 1000,
+    amountPaid: 0,
+    created: 100,
+    eventCreated: 100,
+  });
+  await t.mutation(api.public.handleInvoicePaid, {
+    stripeInvoiceId: "in_stale",
+    amountPaid: 1000,
+    eventCreated: 300,
+  });
+  // A payment failure from before the successful retry arrives late
+  await t.mutation(api.public.handleInvoicePaymentFailed, {
+    stripeInvoiceId: "in_stale",
+    eventCreated: 200,
+  });
+  const invoices = await t.query(api.public.listInvoices, {
+    stripeCustomerId: "cus_stale",
+  });
+  expect(invoices[0].status).toBe("paid");
+  expect(invoices[0].amountPaid).toBe(1000);
+});
+
+test("billing health follows failed payments through the grace period", async () => {
+  const t = convexTest(schema, modules);
+  const day = 24 * 60 * 60;
+  const now = Math.floor(Date.now() / 1000);
+
+  await t.mutation(api.public.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_dunning",
+    stripeCustomerId: "cus_dunning",
+    status: "active",
+    currentPeriodEnd: now + 28 * day,
+    cancelAtPeriodEnd: false,
+    priceId: "price_dunning",
+  });
+  const health = (gracePeriodDays: number) =>
+    t.query(api.public.getBillingHealth, {
+      stripeSubscriptionId: "sub_dunning",
+      gracePeriodDays,
+    });
+  expect(await health(7)).toEqual({
+    state: "healthy",
+    status: "active",
+    failedPaymentAttempts: 0,
+  });
+
+  await t.mutation(api.public.handleInvoicePaymentFailed, {
+    stripeInvoiceId: "in_dunning",
+    stripeSubscriptionId: "sub_dunning",
+    attemptCount: 1,
+    nextPaymentAttempt: now + day,
+    eventCreated: now - 2 * day,
+  });
+  await t.mutation(api.public.handleInvoicePaymentFailed, {
+    stripeInvoiceId: "in_dunning",
+    stripeSubscriptionId: "sub_dunning",
+    attemptCount: 2,
+    nextPaymentAttempt: now + 3 * day,
+    eventCreated: now - day,
+  });
+  expect(await health(7)).toEqual({
+    state: "grace",
+    status: "active",
+    failedPaymentAttempts: 2,
+    paymentFailedAt: now - 2 * day,
+    nextPaymentAttempt: now + 3 * day,
+    graceEndsAt: now + 5 * day,
+  });
+  expect((await health(1))?.state).toBe("restricted");
+
+  await t.mutation(api.public.handleInvoicePaid, {
+    stripeInvoiceId: "in_dunning",
+    stripeSubscriptionId: "sub_dunning",
+    amountPaid: 1000,
+    eventCreated: now,
+  });
+  expect(await health(1)).toEqual({
+    state: "healthy",
+    status: "active",
+    failedPaymentAttempts: 0,
+  });
+
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_dunning",
+    status: "unpaid",
+    currentPeriodEnd: now + 28 * day,
+    cancelAtPeriodEnd: false,
+  });
+  expect((await health(7))?.state).toBe("suspended");
+});
+
+test("billing health recovers when a subscription leaves dunning without a paid invoice", async () => {
+  const t = convexTest(schema, modules);
+  const day = 24 * 60 * 60;
+  const now = Math.floor(Date.now() / 1000);
+  const update = {
+    stripeSubscriptionId: "sub_voided",
+    currentPeriodEnd: now + 28 * day,
+    cancelAtPeriodEnd: false,
+  };
+
+  await t.mutation(api.public.handleSubscriptionCreated, {
+    ...update,
+    stripeCustomerId: "cus_voided",
+    status: "active",
+    priceId: "price_voided",
+  });
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    ...update,
+    status: "past_due",
+  });
+  await t.mutation(api.public.handleInvoicePaymentFailed, {
+    stripeInvoiceId: "in_voided",
+    stripeSubscriptionId: "sub_voided",
+    attemptCount: 1,
+    nextPaymentAttempt: now + day,
+    eventCreated: now - 10 * day,
+  });
+  const health = () =>
+    t.query(api.public.getBillingHealth, {
+      stripeSubscriptionId: "sub_voided",
+      gracePeriodDays: 7,
+    });
+  expect((await health())?.state).toBe("restricted");
+
+  // The failing invoice is voided and the subscription is active again
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    ...update,
+    status: "active",
+  });
+  expect(await health()).toEqual({
+    state: "healthy",
+    status: "active",
+    failedPaymentAttempts: 0,
+  });
+});
+
+test("a late paid event of an older invoice keeps the failed payments", async () => {
+  const t = convexTest(schema, modules);
+  const day = 24 * 60 * 60;
+  const now = Math.floor(Date.now() / 1000);
+
+  await t.mutation(api.public.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_late_paid",
+    stripeCustomerId: "cus_late_paid",
+    status: "active",
+    currentPeriodEnd: now + 28 * day,
+    cancelAtPeriodEnd: false,
+    priceId: "price_late_paid",
+  });
+  await t.mutation(api.public.handleInvoicePaymentFailed, {
+    stripeInvoiceId: "in_current",
+    stripeSubscriptionId: "sub_late_paid",
+    attemptCount: 1,
+    nextPaymentAttempt: now + day,
+    eventCreated: now - day,
+  });
+
+  // Last period's invoice was paid before the failure, but delivered after
+  await t.mutation(api.public.handleInvoicePaid, {
+    stripeInvoiceId: "in_previous",
+    stripeSubscriptionId: "sub_late_paid",
+    amountPaid: 1000,
+    eventCreated: now - 30 * day,
+  });
+  const health = () =>
+    t.query(api.public.getBillingHealth, {
+      stripeSubscriptionId: "sub_late_paid",
+      gracePeriodDays: 7,
+    });
+  expect(await health()).toMatchObject({
+    state: "grace",
+    failedPaymentAttempts: 1,
+    paymentFailedAt: now - day,
+  });
+
+  await t.mutation(api.public.handleInvoicePaid, {
+    stripeInvoiceId: "in_current",
+    stripeSubscriptionId: "sub_late_paid",
+    amountPaid: 1000,
+    eventCreated: now,
+  });
+  expect((await health())?.state).toBe("healthy");
+});
+
+test("subscription history records each tracked transition", async () => {
+  const t = convexTest(schema, modules);
+  const base = {
+    stripeSubscriptionId: "sub_history",
+    currentPeriodEnd: 1700000000,
+    quantity: 1,
+  };
+
+  await t.mutation(api.public.handleSubscriptionCreated, {
+    ...base,
+    stripeCustomerId: "cus_history",
+    status: "active",
+    cancelAtPeriodEnd: false,
+    priceId: "price_basic",
+    eventId: "evt_created",
+    eventCreated: 100,
+  });
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    ...base,
+    status: "past_due",
+    cancelAtPeriodEnd: false,
+    eventId: "evt_past_due",
+    eventCreated: 200,
+  });
+  // A redelivered update with nothing new records nothing
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    ...base,
+    status: "past_due",
+    cancelAtPeriodEnd: false,
+    eventId: "evt_past_due_again",
+    eventCreated: 250,
+  });
+  await t.mutation(api.public.handleSubscriptionUpdated, {
+    ...base,
+    status: "active",
+    priceId: "price_pro",
+    cancelAtPeriodEnd: true,
+    eventId: "evt_upgraded",
+    eventCreated: 300,
+  });
+  await t.mutation(api.public.handleSubscriptionDeleted, {
+    stripeSubscriptionId: "sub_history",
+    eventId: "evt_deleted",
+    eventCreated: 400,
+  });
+
+  const statuses = await t.query(api.public.getSubscriptionHistory, {
+    stripeSubscriptionId: "sub_history",
+    field: "status",
+  });
+  expect(
+    statuses.map(({ from, to, stripeEventId, timestamp }) => ({
+      from,
+      to,
+      stripeEventId,
+      timestamp,
+    }))
+  ).toEqual([
+    {
+      from: undefined,
+      to: "active",
+      stripeEventId: "evt_created",
+      timestamp: 100,
+    },
+    {
+      from: "active",
+      to: "past_due",
+      stripeEventId: "evt_past_due",
+      timestamp: 200,
+    },
+    {
+      from: "past_due",
+      to: "active",
+      stripeEventId: "evt_upgraded",
+      timestamp: 300,
+    },
+    {
+      from: "active",
+      to: "canceled",
+      stripeEventId: "evt_deleted",
+      timestamp: 400,
+    },
+  ]);
+
+  const history = await t.query(api.public.getSubscriptionHistory, {
+    stripeSubscriptionId: "sub_history",
+  });
+  expect(history).toHaveLength(9);
+  expect(
+    history
+      .filter(({ stripeEventId }) => stripeEventId === "evt_upgraded")
+      .map(({ field, from, to }) => ({ field, from, to }))
+  ).toEqual([
+    { field: "status", from: "past_due", to: "active" },
+    { field: "priceId", from: "price_basic", to: "price_pro" },
+    { field: "cancelAtPeriodEnd", from: false, to: true },
+  ]);
+});
+
+test("cancellation reasons are aggregated over a date range", async () => {
+  const t = convexTest(schema, modules);
+  const cancel = (
+    id: string,
+    canceledAt: number,
+    cancellationDetails?: {
+      reason?: string;
+      feedback?: string;
+      comment?: string;
+    }
+  ) =>
+    t.mutation(api.public.handleSubscriptionCreated, {
+      stripeSubscriptionId: id,
+      stripeCustomerId: "cus_churn",
+      status: "canceled",
+      currentPeriodEnd: 1700000000,
+      cancelAtPeriodEnd: false,
+      priceId: "price_churn",
+      canceledAt,
+      cancellationDetails,
+    });
+
+  await cancel("sub_churn_1", 1000, {
+    reason: "cancellation_requested",
+    feedback: "too_expensive",
+    comment: "Over budget this quarter",
+  });
+  await cancel("sub_churn_2", 2000, {
+    reason: "cancellation_requested",
+    feedback: "too_expensive",
+  });
+  await cancel("sub_churn_3", 3000, { reason: "payment_failed" });
+  // Outside the range
+  await cancel("sub_churn_4", 9000, { feedback: "unused" });
+
+  const reasons = await t.query(api.public.getCancellationReasons, {
+    from: 1000,
+    to: 3000,
+  });
+  expect(reasons).toEqual({
+    total: 3,
+    byFeedback: [
+      { feedback: "too_expensive", count: 2 },
+      { feedback: "unspecified", count: 1 },
+    ],
+    byReason: [
+      { reason: "cancellation_requested", count: 2 },
+      { reason: "payment_failed", count: 1 },
+    ],
+    comments: [
+      {
+        stripeSubscriptionId: "sub_churn_1",
+        canceledAt: 1000,
+        feedback: "too_expensive",
+        comment: "Over budget this quarter",
+      },
+    ],
+  });
+});
+
+test("queued webhook events are claimed once and not enqueued twice", async () => {
+  const t = convexTest(schema, modules);
+
+  const args = {
+    stripeEventId: "evt_queued",
+    type: "invoice.paid",
+    livemode: false,
+    payload: JSON.stringify({ id: "evt_queued" }),
+  };
+  const first = await t.mutation(api.public.enqueueWebhookEvent, args);
+  expect(first.duplicate).toBe(false);
+
+  // Stripe redelivers while the event is still queued
+  const redelivery = await t.mutation(api.public.enqueueWebhookEvent, args);
+  expect(redelivery.duplicate).toBe(true);
+
+  const claimed = await t.mutation(api.public.claimWebhookEvent, {
+    stripeEventId: "evt_queued",
+  });
+  expect(claimed).toEqual({ payload: args.payload, attempts: 1 });
+
+  await t.mutation(api.public.markEventProcessed, {
+    stripeEventId: "evt_queued",
+  });
+  expect(
+    await t.mutation(api.public.claimWebhookEvent, {
+      stripeEventId: "evt_queued",
+    })
+  ).toBeNull();
+});
@@ -1,29 +1,148 @@
 import { v } from "convex/values";
+import type { Infer, ObjectType } from "convex/values";
+import type { FunctionHandle } from "convex/server";
 import {
   mutation,
   query
 } from "./_generated/server.js";
+import type { MutationCtx } from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import schema, {
+  subscriptionLifecycleFields,
+  subscriptionSchedulePhaseValidator,
+} from "./schema.js";
+
+// ============================================================================
+// DOCUMENT VALIDATORS
+// ============================================================================
+
+// Return validators are derived from the schema so they stay in sync as
+// tables gain fields.
+const customerValidator = v.object({
+  _id: v.id("customers"),
+  _creationTime: v.number(),
+  ...schema.tables.customers.validator.fields,
+});
+
+const subscriptionValidator = v.object({
+  _id: v.id("subscriptions"),
+  _creationTime: v.number(),
+  ...schema.tables.subscriptions.validator.fields,
+});
+
+const subscriptionItemValidator = v.object({
+  _id: v.id("subscription_items"),
+  _creationTime: v.number(),
+  ...schema.tables.subscription_items.validator.fields,
+});
+
+const subscriptionScheduleValidator = v.object({
+  _id: v.id("subscription_schedules"),
+  _creationTime: v.number(),
+  ...schema.tables.subscription_schedules.validator.fields,
+});
+
+const subscriptionEventValidator = v.object({
+  _id: v.id("subscription_events"),
+  _creationTime: v.number(),
+  ...schema.tables.subscription_events.validator.fields,
+});
+
+const productValidator = v.object({
+  _id: v.id("products"),
+  _creationTime: v.number(),
+  ...schema.tables.products.validator.fields,
+});
+
+const priceValidator = v.object({
+  _id: v.id("prices"),
+  _creationTime: v.number(),
+  ...schema.tables.prices.validator.fields,
+});
+
+const paymentValidator = v.object({
+  _id: v.id("payments"),
+  _creationTime: v.number(),
+  ...schema.tables.payments.validator.fields,
+});
+
+const invoiceValidator = v.object({
+  _id: v.id("invoices"),
+  _creationTime: v.number(),
+  ...schema.tables.invoices.validator.fields,
+});
+
+const stripeEventValidator = v.object({
+  _id: v.id("stripe_events"),
+  _creationTime: v.number(),
+  ...schema.tables.stripe_events.validator.fields,
+});
 
 // ============================================================================
 // PUBLIC QUERIES
 // ============================================================================
 
+/**
+ * Count each value, most frequent first. Missing values count as
+ * "unspecified".
+ */
+function countValues(values: (string | undefined)[]) {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = value ?? "unspecified";
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts].sort(([, a], [, b]) => b - a);
+}
+
+// Statuses in which a subscription no longer grants access
+const SUSPENDED_STATUSES = [
+  "unpaid",
+  "paused",
+  "canceled",
+  "incomplete_expired",
+];
+
+// How long a webhook event's processing attempt is left to finish. Actions
+// time out after 10 minutes, so an attempt older than that has died.
+const WEBHOOK_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Whether a webhook event is being processed, or queued for an attempt, by
+ * an attempt that can still finish. Events whose lease expired can be
+ * processed again.
+ */
+function isLeased(event: Doc<"stripe_events">, now: number) {
+  if (event.status === "processing") {
+    return (event.claimedAt ?? event.receivedAt) + WEBHOOK_LEASE_MS > now;
+  }
+  if (event.status === "pending") {
+    return (event.nextAttemptAt ?? event.receivedAt) + WEBHOOK_LEASE_MS > now;
+  }
+  return false;
+}
+
+// Statuses of a subscription whose payment is failing
+const DUNNING_STATUSES = ["past_due", "unpaid", "incomplete"];
+
+/**
+ * Keep only rows from the given mode. Without a mode, all rows are kept.
+ */
+function inMode<T extends { livemode?: boolean }>(
+  rows: T[],
+  livemode: boolean | undefined
+) {
+  return livemode === undefined
+    ? rows
+    : rows.filter((row) => row.livemode === livemode);
+}
+
 /**
  * Get a customer by their Stripe customer ID.
  */
 export const getCustomer = query({
   args: { stripeCustomerId: v.string() },
-  returns: v.union(
-    v.object({
-      _id: v.id("customers"),
-      _creationTime: v.number(),
-      stripeCustomerId: v.string(),
-      email: v.optional(v.string()),
-      name: v.optional(v.string()),
-      metadata: v.optional(v.any()),
-    }),
-    v.null()
-  ),
+  returns: v.union(customerValidator, v.null()),
   handler: async (ctx, args) => {
     const customer = await ctx.db
       .query("customers")
@@ -39,21 +158,31 @@ export const getCustomer = query({
  * Get a subscription by its Stripe subscription ID.
  */
 export const getSubscription = query({
+  args: { stripeSubscriptionId: v.string() },
+  returns: v.union(subscriptionValidator, v.null()),
+  handler: async (ctx, args) => {
+    const subscription = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_stripe_subscription_id", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .unique();
+    return subscription;
+  },
+});
+
+/**
+ * Get the trial status of a subscription: whether it's trialing and how
+ * many days are left, rounded up.
+ */
+export const getTrialStatus = query({
   args: { stripeSubscriptionId: v.string() },
   returns: v.union(
     v.object({
-      _id: v.id("subscriptions"),
-      _creationTime: v.number(),
-      stripeSubscriptionId: v.string(),
-      stripeCustomerId: v.string(),
-      status: v.string(),
-      currentPeriodEnd: v.number(),
-      cancelAtPeriodEnd: v.boolean(),
-      quantity: v.optional(v.number()),
-      priceId: v.string(),
-      metadata: v.optional(v.any()),
-      orgId: v.optional(v.string()),
-      userId: v.optional(v.string()),
+      isTrialing: v.boolean(),
+      trialStart: v.optional(v.number()),
+      trialEnd: v.optional(v.number()),
+      trialDaysRemaining: v.number(),
     }),
     v.null()
   ),
@@ -64,31 +193,175 @@ export const getSubscription = query({
         q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
       )
       .unique();
-    return subscription;
+    if (!subscription) {
+      return null;
+    }
+
+    const msRemaining =
+      subscription.trialEnd !== undefined
+        ? subscription.trialEnd * 1000 - Date.now()
+        : 0;
+    const isTrialing = subscription.status === "trialing" && msRemaining > 0;
+    return {
+      isTrialing,
+      ...(subscription.trialStart !== undefined && {
+        trialStart: subscription.trialStart,
+      }),
+      ...(subscription.trialEnd !== undefined && {
+        trialEnd: subscription.trialEnd,
+      }),
+      trialDaysRemaining: isTrialing
+        ? Math.ceil(msRemaining / (24 * 60 * 60 * 1000))
+        : 0,
+    };
   },
 });
 
 /**
- * List all subscriptions for a customer.
+ * Get the billing health of a subscription, computed from its status and
+ * failed payments:
+ * - healthy: paid up
+ * - grace: a payment failed less than `gracePeriodDays` ago
+ * - restricted: a payment has been failing for longer than the grace period
+ * - suspended: unpaid, paused, canceled or expired
  */
-export const listSubscriptions = query({
-  args: { stripeCustomerId: v.string() },
-  returns: v.array(
+export const getBillingHealth = query({
+  args: { stripeSubscriptionId: v.string(), gracePeriodDays: v.number() },
+  returns: v.union(
     v.object({
-      _id: v.id("subscriptions"),
-      _creationTime: v.number(),
-      stripeSubscriptionId: v.string(),
-      stripeCustomerId: v.string(),
+      state: v.union(
+        v.literal("healthy"),
+        v.literal("grace"),
+        v.literal("restricted"),
+        v.literal("suspended")
+      ),
       status: v.string(),
-      currentPeriodEnd: v.number(),
-      cancelAtPeriodEnd: v.boolean(),
-      quantity: v.optional(v.number()),
-      priceId: v.string(),
-      metadata: v.optional(v.any()),
-      orgId: v.optional(v.string()),
-      userId: v.optional(v.string()),
-    })
+      failedPaymentAttempts: v.number(),
+      paymentFailedAt: v.optional(v.number()),
+      nextPaymentAttempt: v.optional(v.number()),
+      graceEndsAt: v.optional(v.number()),
+    }),
+    v.null()
   ),
+  handler: async (ctx, args) => {
+    const subscription = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_stripe_subscription_id", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .unique();
+    if (!subscription) {
+      return null;
+    }
+
+    const failedPaymentAttempts = subscription.failedPaymentAttempts ?? 0;
+    const failing =
+      failedPaymentAttempts > 0 ||
+      subscription.status === "past_due" ||
+      subscription.status === "incomplete";
+    // Without a recorded failure, the grace period runs from the period start
+    const failingSince =
+      subscription.paymentFailedAt ?? subscription.currentPeriodStart;
+    const graceEndsAt =
+      failing && failingSince !== undefined
+        ? failingSince + args.gracePeriodDays * 24 * 60 * 60
+        : undefined;
+
+    let state: "healthy" | "grace" | "restricted" | "suspended";
+    if (SUSPENDED_STATUSES.includes(subscription.status)) {
+      state = "suspended";
+    } else if (!failing) {
+      state = "healthy";
+    } else if (graceEndsAt === undefined || Date.now() < graceEndsAt * 1000) {
+      state = "grace";
+    } else {
+      state = "restricted";
+    }
+
+    return {
+      state,
+      status: subscription.status,
+      failedPaymentAttempts,
+      ...(subscription.paymentFailedAt !== undefined && {
+        paymentFailedAt: subscription.paymentFailedAt,
+      }),
+      ...(subscription.nextPaymentAttempt !== undefined && {
+        nextPaymentAttempt: subscription.nextPaymentAttempt,
+      }),
+      ...(graceEndsAt !== undefined && { graceEndsAt }),
+    };
+  },
+});
+
+/**
+ * Count why subscriptions were canceled, for subscriptions whose
+ * cancellation was requested between `from` and `to` (seconds since the
+ * epoch, inclusive). Subscriptions canceled at period end count from when
+ * the cancellation was requested.
+ */
+export const getCancellationReasons = query({
+  args: {
+    from: v.number(),
+    to: v.number(),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.object({
+    total: v.number(),
+    byFeedback: v.array(v.object({ feedback: v.string(), count: v.number() })),
+    byReason: v.array(v.object({ reason: v.string(), count: v.number() })),
+    comments: v.array(
+      v.object({
+        stripeSubscriptionId: v.string(),
+        canceledAt: v.number(),
+        feedback: v.optional(v.string()),
+        comment: v.string(),
+      })
+    ),
+  }),
+  handler: async (ctx, args) => {
+    const subscriptions = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_canceled_at", (q) =>
+        q.gte("canceledAt", args.from).lte("canceledAt", args.to)
+      )
+      .collect();
+    const canceled = inMode(subscriptions, args.livemode);
+
+    const comments = [];
+    for (const subscription of canceled) {
+      const details = subscription.cancellationDetails;
+      if (details?.comment && subscription.canceledAt !== undefined) {
+        comments.push({
+          stripeSubscriptionId: subscription.stripeSubscriptionId,
+          canceledAt: subscription.canceledAt,
+          ...(details.feedback !== undefined && { feedback: details.feedback }),
+          comment: details.comment,
+        });
+      }
+    }
+
+    return {
+      total: canceled.length,
+      byFeedback: countValues(
+        canceled.map(({ cancellationDetails }) => cancellationDetails?.feedback)
+      ).map(([feedback, count]) => ({ feedback, count })),
+      byReason: countValues(
+        canceled.map(({ cancellationDetails }) => cancellationDetails?.reason)
+      ).map(([reason, count]) => ({ reason, count })),
+      comments,
+    };
+  },
+});
+
+/**
+ * List all subscriptions for a customer.
+ */
+export const listSubscriptions = query({
+  args: {
+    stripeCustomerId: v.string(),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.array(subscriptionValidator),
   handler: async (ctx, args) => {
     const subscriptions = await ctx.db
       .query("subscriptions")
@@ -96,7 +369,84 @@ export const listSubscriptions = query({
         q.eq("stripeCustomerId", args.stripeCustomerId)
       )
       .collect();
-    return subscriptions;
+    return inMode(subscriptions, args.livemode);
+  },
+});
+
+/**
+ * List the items of a subscription.
+ */
+export const listSubscriptionItems = query({
+  args: { stripeSubscriptionId: v.string() },
+  returns: v.array(subscriptionItemValidator),
+  handler: async (ctx, args) => {
+    const items = await ctx.db
+      .query("subscription_items")
+      .withIndex("by_stripe_subscription_id", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .collect();
+    return items;
+  },
+});
+
+/**
+ * Get the history of a subscription's status, price, quantity and cancel-flag
+ * changes, oldest first. Pass `field` to get the changes of one field only.
+ */
+export const getSubscriptionHistory = query({
+  args: {
+    stripeSubscriptionId: v.string(),
+    field: v.optional(schema.tables.subscription_events.validator.fields.field),
+  },
+  returns: v.array(subscriptionEventValidator),
+  handler: async (ctx, args) => {
+    const events = await ctx.db
+      .query("subscription_events")
+      .withIndex("by_stripe_subscription_id", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .collect();
+    return args.field === undefined
+      ? events
+      : events.filter((event) => event.field === args.field);
+  },
+});
+
+/**
+ * Get a subscription schedule by its Stripe ID.
+ */
+export const getSubscriptionSchedule = query({
+  args: { stripeScheduleId: v.string() },
+  returns: v.union(subscriptionScheduleValidator, v.null()),
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db
+      .query("subscription_schedules")
+      .withIndex("by_stripe_schedule_id", (q) =>
+        q.eq("stripeScheduleId", args.stripeScheduleId)
+      )
+      .unique();
+    return schedule;
+  },
+});
+
+/**
+ * Get the schedule currently attached to a subscription, if any.
+ */
+export const getSubscriptionScheduleBySubscriptionId = query({
+  args: { stripeSubscriptionId: v.string() },
+  returns: v.union(subscriptionScheduleValidator, v.null()),
+  handler: async (ctx, args) => {
+    const schedules = await ctx.db
+      .query("subscription_schedules")
+      .withIndex("by_stripe_subscription_id", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId)
+      )
+      .collect();
+    const attached = schedules.filter(
+      ({ status }) => status === "not_started" || status === "active"
+    );
+    return attached.length > 0 ? attached[0] : null;
   },
 });
 
@@ -105,30 +455,15 @@ export const listSubscriptions = query({
  * Useful for looking up subscriptions by custom orgId.
  */
 export const getSubscriptionByOrgId = query({
-  args: { orgId: v.string() },
-  returns: v.union(
-    v.object({
-      _id: v.id("subscriptions"),
-      _creationTime: v.number(),
-      stripeSubscriptionId: v.string(),
-      stripeCustomerId: v.string(),
-      status: v.string(),
-      currentPeriodEnd: v.number(),
-      cancelAtPeriodEnd: v.boolean(),
-      quantity: v.optional(v.number()),
-      priceId: v.string(),
-      metadata: v.optional(v.any()),
-      orgId: v.optional(v.string()),
-      userId: v.optional(v.string()),
-    }),
-    v.null()
-  ),
+  args: { orgId: v.string(), livemode: v.optional(v.boolean()) },
+  returns: v.union(subscriptionValidator, v.null()),
   handler: async (ctx, args) => {
-    const subscription = await ctx.db
+    const subscriptions = await ctx.db
       .query("subscriptions")
       .withIndex("by_org_id", (q) => q.eq("orgId", args.orgId))
-      .first();
-    return subscription;
+      .collect();
+    const matching = inMode(subscriptions, args.livemode);
+    return matching.length > 0 ? matching[0] : null;
   },
 });
 
@@ -137,29 +472,194 @@ export const getSubscriptionByOrgId = query({
  * Useful for looking up subscriptions by custom userId.
  */
 export const listSubscriptionsByUserId = query({
-  args: { userId: v.string() },
-  returns: v.array(
-    v.object({
-      _id: v.id("subscriptions"),
-      _creationTime: v.number(),
-      stripeSubscriptionId: v.string(),
-      stripeCustomerId: v.string(),
-      status: v.string(),
-      currentPeriodEnd: v.number(),
-      cancelAtPeriodEnd: v.boolean(),
-      quantity: v.optional(v.number()),
-      priceId: v.string(),
-      metadata: v.optional(v.any()),
-      orgId: v.optional(v.string()),
-      userId: v.optional(v.string()),
-    })
-  ),
+  args: { userId: v.string(), livemode: v.optional(v.boolean()) },
+  returns: v.array(subscriptionValidator),
   handler: async (ctx, args) => {
     const subscriptions = await ctx.db
       .query("subscriptions")
       .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
       .collect();
-    return subscriptions;
+    return inMode(subscriptions, args.livemode);
+  },
+});
+
+/**
+ * Get what grants entitlements to an org or a user: the prices, products
+ * and price lookup keys of their active or trialing subscriptions, and the Stripe Entitlements
+ * features of those subscriptions' customers.
+ */
+export const getEntitlementSources = query({
+  args: {
+    orgId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.object({
+    subscriptions: v.array(
+      v.object({
+        stripeSubscriptionId: v.string(),
+        stripeCustomerId: v.string(),
+        status: v.string(),
+        priceIds: v.array(v.string()),
+        productIds: v.array(v.string()),
+        lookupKeys: v.array(v.string()),
+      })
+    ),
+    featureLookupKeys: v.array(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const { orgId, userId } = args;
+    let subscriptions;
+    if (orgId !== undefined) {
+      subscriptions = await ctx.db
+        .query("subscriptions")
+        .withIndex("by_org_id", (q) => q.eq("orgId", orgId))
+        .collect();
+    } else if (userId !== undefined) {
+      subscriptions = await ctx.db
+        .query("subscriptions")
+        .withIndex("by_user_id", (q) => q.eq("userId", userId))
+        .collect();
+    } else {
+      throw new Error("Either orgId or userId is required");
+    }
+
+    const entitled = inMode(subscriptions, args.livemode).filter(
+      ({ status }) => status === "active" || status === "trialing"
+    );
+    const sources = [];
+    for (const subscription of entitled) {
+      const items = await ctx.db
+        .query("subscription_items")
+        .withIndex("by_stripe_subscription_id", (q) =>
+          q.eq("stripeSubscriptionId", subscription.stripeSubscriptionId)
+        )
+        .collect();
+      sources.push({
+        stripeSubscriptionId: subscription.stripeSubscriptionId,
+        stripeCustomerId: subscription.stripeCustomerId,
+        status: subscription.status,
+        // Subscriptions synced before items were have only their first price
+        priceIds: [
+          ...new Set([
+            subscription.priceId,
+            ...items.map(({ priceId }) => priceId),
+          ]),
+        ],
+        productIds: [...new Set(items.map(({ productId }) => productId))],
+        lookupKeys: [
+          ...new Set(
+            [
+              subscription.lookupKey,
+              ...items.map(({ lookupKey }) => lookupKey),
+            ].filter((key): key is string => key !== undefined)
+          ),
+        ],
+      });
+    }
+
+    const featureLookupKeys = new Set<string>();
+    for (const stripeCustomerId of new Set(
+      sources.map((source) => source.stripeCustomerId)
+    )) {
+      const summary = await ctx.db
+        .query("active_entitlements")
+        .withIndex("by_stripe_customer_id", (q) =>
+          q.eq("stripeCustomerId", stripeCustomerId)
+        )
+        .unique();
+      summary?.featureLookupKeys.forEach((key) => featureLookupKeys.add(key));
+    }
+
+    return {
+      subscriptions: sources,
+      featureLookupKeys: [...featureLookupKeys],
+    };
+  },
+});
+
+/**
+ * List the synced products. Pass `active` to get only active or only
+ * archived products.
+ */
+export const listProducts = query({
+  args: {
+    active: v.optional(v.boolean()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.array(productValidator),
+  handler: async (ctx, args) => {
+    const products = await ctx.db.query("products").collect();
+    return inMode(products, args.livemode).filter(
+      (product) => args.active === undefined || product.active === args.active
+    );
+  },
+});
+
+/**
+ * List the synced prices, optionally of one product. Pass `active` to get
+ * only active or only archived prices.
+ */
+export const listPrices = query({
+  args: {
+    stripeProductId: v.optional(v.string()),
+    active: v.optional(v.boolean()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.array(priceValidator),
+  handler: async (ctx, args) => {
+    const { stripeProductId } = args;
+    const prices =
+      stripeProductId === undefined
+        ? await ctx.db.query("prices").collect()
+        : await ctx.db
+            .query("prices")
+            .withIndex("by_stripe_product_id", (q) =>
+              q.eq("stripeProductId", stripeProductId)
+            )
+            .collect();
+    return inMode(prices, args.livemode).filter(
+      (price) => args.active === undefined || price.active === args.active
+    );
+  },
+});
+
+/**
+ * Get a price by its Stripe ID.
+ */
+export const getPrice = query({
+  args: { stripePriceId: v.string() },
+  returns: v.union(priceValidator, v.null()),
+  handler: async (ctx, args) => {
+    const price = await ctx.db
+      .query("prices")
+      .withIndex("by_stripe_price_id", (q) =>
+        q.eq("stripePriceId", args.stripePriceId)
+      )
+      .unique();
+    return price;
+  },
+});
+
+/**
+ * Get the active price with a lookup key. Returns null when no synced price
+ * has it, or when prices of both modes do and `livemode` isn't given.
+ */
+export const getPriceByLookupKey = query({
+  args: {
+    lookupKey: v.string(),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.union(priceValidator, v.null()),
+  handler: async (ctx, args) => {
+    const prices = await ctx.db
+      .query("prices")
+      .withIndex("by_lookup_key", (q) => q.eq("lookupKey", args.lookupKey))
+      .collect();
+    const active = inMode(prices, args.livemode).filter(
+      (price) => price.active
+    );
+    return active.length === 1 ? active[0] : null;
   },
 });
 
@@ -168,22 +668,7 @@ export const listSubscriptionsByUserId = query({
  */
 export const getPayment = query({
   args: { stripePaymentIntentId: v.string() },
-  returns: v.union(
-    v.object({
-      _id: v.id("payments"),
-      _creationTime: v.number(),
-      stripePaymentIntentId: v.string(),
-      stripeCustomerId: v.optional(v.string()),
-      amount: v.number(),
-      currency: v.string(),
-      status: v.string(),
-      created: v.number(),
-      metadata: v.optional(v.any()),
-      orgId: v.optional(v.string()),
-      userId: v.optional(v.string()),
-    }),
-    v.null()
-  ),
+  returns: v.union(paymentValidator, v.null()),
   handler: async (ctx, args) => {
     const payment = await ctx.db
       .query("payments")
@@ -199,22 +684,11 @@ export const getPayment = query({
  * List payments for a customer.
  */
 export const listPayments = query({
-  args: { stripeCustomerId: v.string() },
-  returns: v.array(
-    v.object({
-      _id: v.id("payments"),
-      _creationTime: v.number(),
-      stripePaymentIntentId: v.string(),
-      stripeCustomerId: v.optional(v.string()),
-      amount: v.number(),
-      currency: v.string(),
-      status: v.string(),
-      created: v.number(),
-      metadata: v.optional(v.any()),
-      orgId: v.optional(v.string()),
-      userId: v.optional(v.string()),
-    })
-  ),
+  args: {
+    stripeCustomerId: v.string(),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.array(paymentValidator),
   handler: async (ctx, args) => {
     const payments = await ctx.db
       .query("payments")
@@ -222,7 +696,7 @@ export const listPayments = query({
         q.eq("stripeCustomerId", args.stripeCustomerId)
       )
       .collect();
-    return payments;
+    return inMode(payments, args.livemode);
   },
 });
 
@@ -230,28 +704,14 @@ export const listPayments = query({
  * List payments for a user ID.
  */
 export const listPaymentsByUserId = query({
-  args: { userId: v.string() },
-  returns: v.array(
-    v.object({
-      _id: v.id("payments"),
-      _creationTime: v.number(),
-      stripePaymentIntentId: v.string(),
-      stripeCustomerId: v.optional(v.string()),
-      amount: v.number(),
-      currency: v.string(),
-      status: v.string(),
-      created: v.number(),
-      metadata: v.optional(v.any()),
-      orgId: v.optional(v.string()),
-      userId: v.optional(v.string()),
-    })
-  ),
+  args: { userId: v.string(), livemode: v.optional(v.boolean()) },
+  returns: v.array(paymentValidator),
   handler: async (ctx, args) => {
     const payments = await ctx.db
       .query("payments")
       .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
       .collect();
-    return payments;
+    return inMode(payments, args.livemode);
   },
 });
 
@@ -259,28 +719,14 @@ export const listPaymentsByUserId = query({
  * List payments for an organization ID.
  */
 export const listPaymentsByOrgId = query({
-  args: { orgId: v.string() },
-  returns: v.array(
-    v.object({
-      _id: v.id("payments"),
-      _creationTime: v.number(),
-      stripePaymentIntentId: v.string(),
-      stripeCustomerId: v.optional(v.string()),
-      amount: v.number(),
-      currency: v.string(),
-      status: v.string(),
-      created: v.number(),
-      metadata: v.optional(v.any()),
-      orgId: v.optional(v.string()),
-      userId: v.optional(v.string()),
-    })
-  ),
+  args: { orgId: v.string(), livemode: v.optional(v.boolean()) },
+  returns: v.array(paymentValidator),
   handler: async (ctx, args) => {
     const payments = await ctx.db
       .query("payments")
       .withIndex("by_org_id", (q) => q.eq("orgId", args.orgId))
       .collect();
-    return payments;
+    return inMode(payments, args.livemode);
   },
 });
 
@@ -288,20 +734,11 @@ export const listPaymentsByOrgId = query({
  * List invoices for a customer.
  */
 export const listInvoices = query({
-  args: { stripeCustomerId: v.string() },
-  returns: v.array(
-    v.object({
-      _id: v.id("invoices"),
-      _creationTime: v.number(),
-      stripeInvoiceId: v.string(),
-      stripeCustomerId: v.string(),
-      stripeSubscriptionId: v.optional(v.string()),
-      status: v.string(),
-      amountDue: v.number(),
-      amountPaid: v.number(),
-      created: v.number(),
-    })
-  ),
+  args: {
+    stripeCustomerId: v.string(),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.array(invoiceValidator),
   handler: async (ctx, args) => {
     const invoices = await ctx.db
       .query("invoices")
@@ -309,7 +746,71 @@ export const listInvoices = query({
         q.eq("stripeCustomerId", args.stripeCustomerId)
       )
       .collect();
-    return invoices;
+    return inMode(invoices, args.livemode);
+  },
+});
+
+/**
+ * Get a webhook event from the event ledger by its Stripe event ID.
+ */
+export const getWebhookEvent = query({
+  args: { stripeEventId: v.string() },
+  returns: v.union(stripeEventValidator, v.null()),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("stripe_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .unique();
+    return event;
+  },
+});
+
+/**
+ * Check whether a webhook event has already been processed successfully.
+ */
+export const isEventProcessed = query({
+  args: { stripeEventId: v.string() },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("stripe_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .unique();
+    return event?.status === "processed";
+  },
+});
+
+/**
+ * List webhook events that failed processing (the dead-letter queue),
+ * most recent first. Events whose processing attempt died, or was never
+ * started, are listed too once their lease expired.
+ */
+export const listFailedEvents = query({
+  args: { limit: v.optional(v.number()) },
+  returns: v.array(stripeEventValidator),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 100;
+    const now = Date.now();
+    const failed = await ctx.db
+      .query("stripe_events")
+      .withIndex("by_status", (q) => q.eq("status", "failed"))
+      .order("desc")
+      .take(limit);
+    const stalled = [];
+    for (const status of ["pending", "processing"] as const) {
+      const events = await ctx.db
+        .query("stripe_events")
+        .withIndex("by_status", (q) => q.eq("status", status))
+        .collect();
+      stalled.push(...events.filter((event) => !isLeased(event, now)));
+    }
+    return [...failed, ...stalled]
+      .sort((a, b) => b._creationTime - a._creationTime)
+      .slice(0, limit);
   },
 });
 
@@ -318,7 +819,7 @@ export const listInvoices = query({
  * This is for demo purposes only and will be removed in prod.
  */
 export const getAllData = query({
-  args: {},
+  args: { livemode: v.optional(v.boolean()) },
   returns: v.object({
     customers: v.array(v.any()),
     subscriptions: v.array(v.any()),
@@ -326,7 +827,7 @@ export const getAllData = query({
     payments: v.array(v.any()),
     invoices: v.array(v.any()),
   }),
-  handler: async (ctx) => {
+  handler: async (ctx, args) => {
     const customers = await ctx.db.query("customers").collect();
     const subscriptions = await ctx.db.query("subscriptions").collect();
     const checkoutSessions = await ctx.db.query("checkout_sessions").collect();
@@ -334,11 +835,11 @@ export const getAllData = query({
     const invoices = await ctx.db.query("invoices").collect();
 
     return {
-      customers,
-      subscriptions,
-      checkoutSessions,
-      payments,
-      invoices,
+      customers: inMode(customers, args.livemode),
+      subscriptions: inMode(subscriptions, args.livemode),
+      checkoutSessions: inMode(checkoutSessions, args.livemode),
+      payments: inMode(payments, args.livemode),
+      invoices: inMode(invoices, args.livemode),
     };
   },
 });
@@ -422,9 +923,198 @@ export const updateSubscriptionMetadata = mutation({
   },
 });
 
-// ============================================================================
-// INTERNAL MUTATIONS (for webhooks and internal use)
-// ============================================================================
+// ============================================================================
+// INTERNAL MUTATIONS (for webhooks and internal use)
+// ============================================================================
+
+const trackedSubscriptionFields = [
+  "status",
+  "priceId",
+  "quantity",
+  "cancelAtPeriodEnd",
+] as const;
+
+type TrackedSubscriptionFields = Partial<
+  Pick<Doc<"subscriptions">, (typeof trackedSubscriptionFields)[number]>
+>;
+
+/**
+ * Record the changes of the tracked fields in `subscription_events`. Fields
+ * missing from `after` are left out. Without `before`, the subscription is
+ * new and every value is recorded.
+ */
+async function recordSubscriptionChanges(
+  ctx: MutationCtx,
+  stripeSubscriptionId: string,
+  before: TrackedSubscriptionFields | null,
+  after: TrackedSubscriptionFields,
+  source: { eventId?: string; eventCreated?: number }
+) {
+  const timestamp = source.eventCreated ?? Math.floor(Date.now() / 1000);
+  for (const field of trackedSubscriptionFields) {
+    if (!(field in after) || (before && before[field] === after[field])) {
+      continue;
+    }
+    await ctx.db.insert("subscription_events", {
+      stripeSubscriptionId,
+      field,
+      from: before?.[field],
+      to: after[field],
+      stripeEventId: source.eventId,
+      timestamp,
+    });
+  }
+}
+
+/**
+ * Look up a subscription row by its Stripe ID, if one is given.
+ */
+async function getSubscriptionById(
+  ctx: MutationCtx,
+  stripeSubscriptionId: string | undefined
+) {
+  if (stripeSubscriptionId === undefined) {
+    return null;
+  }
+  return await ctx.db
+    .query("subscriptions")
+    .withIndex("by_stripe_subscription_id", (q) =>
+      q.eq("stripeSubscriptionId", stripeSubscriptionId)
+    )
+    .unique();
+}
+
+/**
+ * Stripe does not guarantee delivery order, so a webhook is stale when it was
+ * created before the last webhook applied to the row.
+ */
+function isStaleEvent(
+  lastEventCreated: number | undefined,
+  eventCreated: number | undefined
+) {
+  return (
+    lastEventCreated !== undefined &&
+    eventCreated !== undefined &&
+    eventCreated < lastEventCreated
+  );
+}
+
+/**
+ * Pick the lifecycle fields from a subscription webhook's args. Fields that
+ * Stripe no longer sets are cleared.
+ */
+function lifecycleFields(
+  args: ObjectType<typeof subscriptionLifecycleFields>
+): ObjectType<typeof subscriptionLifecycleFields> {
+  return {
+    currentPeriodStart: args.currentPeriodStart,
+    startDate: args.startDate,
+    billingCycleAnchor: args.billingCycleAnchor,
+    cancelAt: args.cancelAt,
+    canceledAt: args.canceledAt,
+    endedAt: args.endedAt,
+    collectionMethod: args.collectionMethod,
+    pauseCollection: args.pauseCollection,
+    latestInvoiceId: args.latestInvoiceId,
+    defaultPaymentMethod: args.defaultPaymentMethod,
+    cancellationDetails: args.cancellationDetails,
+  };
+}
+
+/**
+ * An app mutation to call from the same transaction as a subscription sync.
+ */
+const syncHookValidator = v.object({
+  handle: v.string(),
+  // Unset for writes made through the Stripe API
+  eventId: v.optional(v.string()),
+  eventType: v.optional(v.string()),
+});
+
+/**
+ * Run the app's sync hook with the subscription as just written. It shares
+ * the transaction, so if the hook throws the sync is rolled back too.
+ */
+async function runSubscriptionSyncHook(
+  ctx: MutationCtx,
+  syncHook: Infer<typeof syncHookValidator> | undefined,
+  subscriptionId: Id<"subscriptions">
+) {
+  if (!syncHook) {
+    return;
+  }
+  const subscription = await ctx.db.get(subscriptionId);
+  await ctx.runMutation(syncHook.handle as FunctionHandle<"mutation">, {
+    eventId: syncHook.eventId,
+    eventType: syncHook.eventType,
+    subscription,
+  });
+}
+
+/**
+ * A subscription item as read from a Stripe subscription.
+ */
+const subscriptionItemArgValidator = v.object({
+  stripeSubscriptionItemId: v.string(),
+  priceId: v.string(),
+  productId: v.string(),
+  lookupKey: v.optional(v.string()),
+  quantity: v.optional(v.number()),
+  currentPeriodStart: v.number(),
+  currentPeriodEnd: v.number(),
+  metadata: v.optional(v.any()),
+});
+
+async function upsertItem(
+  ctx: MutationCtx,
+  stripeSubscriptionId: string,
+  item: Infer<typeof subscriptionItemArgValidator>,
+  livemode: boolean | undefined
+) {
+  const existing = await ctx.db
+    .query("subscription_items")
+    .withIndex("by_stripe_subscription_item_id", (q) =>
+      q.eq("stripeSubscriptionItemId", item.stripeSubscriptionItemId)
+    )
+    .unique();
+  const fields = {
+    ...item,
+    stripeSubscriptionId,
+    livemode: livemode ?? existing?.livemode,
+  };
+  if (existing) {
+    await ctx.db.replace(existing._id, fields);
+  } else {
+    await ctx.db.insert("subscription_items", fields);
+  }
+}
+
+/**
+ * Make the stored items of a subscription match the given list, removing
+ * items that are no longer on the subscription.
+ */
+async function replaceSubscriptionItems(
+  ctx: MutationCtx,
+  stripeSubscriptionId: string,
+  items: Infer<typeof subscriptionItemArgValidator>[],
+  livemode: boolean | undefined
+) {
+  const current = await ctx.db
+    .query("subscription_items")
+    .withIndex("by_stripe_subscription_id", (q) =>
+      q.eq("stripeSubscriptionId", stripeSubscriptionId)
+    )
+    .collect();
+  const itemIds = new Set(items.map((item) => item.stripeSubscriptionItemId));
+  for (const item of current) {
+    if (!itemIds.has(item.stripeSubscriptionItemId)) {
+      await ctx.db.delete(item._id);
+    }
+  }
+  for (const item of items) {
+    await upsertItem(ctx, stripeSubscriptionId, item, livemode);
+  }
+}
 
 export const updateSubscriptionQuantityInternal = mutation({
       args: {
@@ -444,6 +1134,13 @@ export const updateSubscriptionQuantityInternal = mutation({
           await ctx.db.patch(subscription._id, {
             quantity: args.quantity,
           });
+          await recordSubscriptionChanges(
+            ctx,
+            args.stripeSubscriptionId,
+            subscription,
+            { quantity: args.quantity },
+            {}
+          );
         }
 
         return null;
@@ -456,6 +1153,8 @@ export const handleCustomerCreated = mutation({
         email: v.optional(v.string()),
         name: v.optional(v.string()),
         metadata: v.optional(v.any()),
+        livemode: v.optional(v.boolean()),
+        eventCreated: v.optional(v.number()),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -472,6 +1171,8 @@ export const handleCustomerCreated = mutation({
             email: args.email,
             name: args.name,
             metadata: args.metadata || {},
+            livemode: args.livemode,
+            lastEventCreated: args.eventCreated,
           });
         }
 
@@ -485,6 +1186,8 @@ export const handleCustomerUpdated = mutation({
         email: v.optional(v.string()),
         name: v.optional(v.string()),
         metadata: v.optional(v.any()),
+        livemode: v.optional(v.boolean()),
+        eventCreated: v.optional(v.number()),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -495,11 +1198,18 @@ export const handleCustomerUpdated = mutation({
           )
           .unique();
 
-        if (customer) {
+        if (
+          customer &&
+          !isStaleEvent(customer.lastEventCreated, args.eventCreated)
+        ) {
           await ctx.db.patch(customer._id, {
             email: args.email,
             name: args.name,
             metadata: args.metadata,
+            ...(args.livemode !== undefined && { livemode: args.livemode }),
+            ...(args.eventCreated !== undefined && {
+              lastEventCreated: args.eventCreated,
+            }),
           });
         }
 
@@ -507,16 +1217,156 @@ export const handleCustomerUpdated = mutation({
       },
 });
 
+/**
+ * A subscription's fields as sent with its events.
+ */
+const subscriptionEventArgs = {
+  stripeSubscriptionId: v.string(),
+  status: v.string(),
+  currentPeriodEnd: v.number(),
+  cancelAtPeriodEnd: v.boolean(),
+  quantity: v.optional(v.number()),
+  priceId: v.optional(v.string()),
+  lookupKey: v.optional(v.string()),
+  trialStart: v.optional(v.number()),
+  trialEnd: v.optional(v.number()),
+  ...subscriptionLifecycleFields,
+  metadata: v.optional(v.any()),
+  livemode: v.optional(v.boolean()),
+  eventCreated: v.optional(v.number()),
+  items: v.optional(v.array(subscriptionItemArgValidator)),
+  eventId: v.optional(v.string()),
+  syncHook: v.optional(syncHookValidator),
+};
+
+type SubscriptionEventArgs = ObjectType<typeof subscriptionEventArgs>;
+
+/**
+ * Insert a subscription seen for the first time.
+ */
+async function insertSubscription(
+  ctx: MutationCtx,
+  args: SubscriptionEventArgs & { stripeCustomerId: string; priceId: string }
+) {
+  // Extract orgId and userId from metadata if present
+  const metadata = args.metadata || {};
+  const orgId = metadata.orgId as string | undefined;
+  const userId = metadata.userId as string | undefined;
+
+  const subscriptionId = await ctx.db.insert("subscriptions", {
+    stripeSubscriptionId: args.stripeSubscriptionId,
+    stripeCustomerId: args.stripeCustomerId,
+    status: args.status,
+    currentPeriodEnd: args.currentPeriodEnd,
+    cancelAtPeriodEnd: args.cancelAtPeriodEnd,
+    quantity: args.quantity,
+    priceId: args.priceId,
+    lookupKey: args.lookupKey,
+    trialStart: args.trialStart,
+    trialEnd: args.trialEnd,
+    ...lifecycleFields(args),
+    metadata: metadata,
+    orgId: orgId,
+    userId: userId,
+    livemode: args.livemode,
+    lastEventCreated: args.eventCreated,
+  });
+  await recordSubscriptionChanges(
+    ctx,
+    args.stripeSubscriptionId,
+    null,
+    {
+      status: args.status,
+      priceId: args.priceId,
+      quantity: args.quantity,
+      cancelAtPeriodEnd: args.cancelAtPeriodEnd,
+    },
+    args
+  );
+  if (args.items) {
+    await replaceSubscriptionItems(
+      ctx,
+      args.stripeSubscriptionId,
+      args.items,
+      args.livemode
+    );
+  }
+  await runSubscriptionSyncHook(ctx, args.syncHook, subscriptionId);
+}
+
+/**
+ * Apply a subscription's new state to its existing row.
+ */
+async function updateSubscription(
+  ctx: MutationCtx,
+  subscription: Doc<"subscriptions">,
+  args: SubscriptionEventArgs
+) {
+  // Extract orgId and userId from metadata if present
+  const metadata = args.metadata || {};
+  const orgId = metadata.orgId as string | undefined;
+  const userId = metadata.userId as string | undefined;
+
+  // Leaving dunning, e.g. once the failing invoice is voided, ends
+  // the failed payments like a paid invoice does
+  const recovered =
+    DUNNING_STATUSES.includes(subscription.status) &&
+    !DUNNING_STATUSES.includes(args.status);
+
+  await ctx.db.patch(subscription._id, {
+    status: args.status,
+    currentPeriodEnd: args.currentPeriodEnd,
+    cancelAtPeriodEnd: args.cancelAtPeriodEnd,
+    quantity: args.quantity,
+    ...(recovered && {
+      paymentFailedAt: undefined,
+      failedPaymentAttempts: undefined,
+      nextPaymentAttempt: undefined,
+    }),
+    ...(args.priceId !== undefined && {
+      priceId: args.priceId,
+      lookupKey: args.lookupKey,
+    }),
+    trialStart: args.trialStart,
+    trialEnd: args.trialEnd,
+    ...lifecycleFields(args),
+    // Only update metadata fields if provided
+    ...(args.metadata !== undefined && { metadata }),
+    ...(orgId !== undefined && { orgId }),
+    ...(userId !== undefined && { userId }),
+    ...(args.livemode !== undefined && { livemode: args.livemode }),
+    ...(args.eventCreated !== undefined && {
+      lastEventCreated: args.eventCreated,
+    }),
+  });
+  await recordSubscriptionChanges(
+    ctx,
+    args.stripeSubscriptionId,
+    subscription,
+    {
+      status: args.status,
+      ...(args.priceId !== undefined && { priceId: args.priceId }),
+      quantity: args.quantity,
+      cancelAtPeriodEnd: args.cancelAtPeriodEnd,
+    },
+    args
+  );
+  if (args.items) {
+    await replaceSubscriptionItems(
+      ctx,
+      args.stripeSubscriptionId,
+      args.items,
+      args.livemode
+    );
+  }
+  await runSubscriptionSyncHook(ctx, args.syncHook, subscription._id);
+}
+
 export const handleSubscriptionCreated = mutation({
       args: {
-        stripeSubscriptionId: v.string(),
+        ...subscriptionEventArgs,
         stripeCustomerId: v.string(),
-        status: v.string(),
-        currentPeriodEnd: v.number(),
-        cancelAtPeriodEnd: v.boolean(),
-        quantity: v.optional(v.number()),
         priceId: v.string(),
-        metadata: v.optional(v.any()),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -528,23 +1378,15 @@ export const handleSubscriptionCreated = mutation({
           .unique();
 
         if (!existing) {
-          // Extract orgId and userId from metadata if present
-          const metadata = args.metadata || {};
-          const orgId = metadata.orgId as string | undefined;
-          const userId = metadata.userId as string | undefined;
-
-          await ctx.db.insert("subscriptions", {
-            stripeSubscriptionId: args.stripeSubscriptionId,
-            stripeCustomerId: args.stripeCustomerId,
-            status: args.status,
-            currentPeriodEnd: args.currentPeriodEnd,
-            cancelAtPeriodEnd: args.cancelAtPeriodEnd,
-            quantity: args.quantity,
-            priceId: args.priceId,
-            metadata: metadata,
-            orgId: orgId,
-            userId: userId,
-          });
+          await insertSubscription(ctx, args);
+        } else if (
+          // Updates sent in the same second as the creation came after it,
+          // so a late created event only applies when strictly newer
+          existing.lastEventCreated === undefined ||
+          args.eventCreated === undefined ||
+          args.eventCreated > existing.lastEventCreated
+        ) {
+          await updateSubscription(ctx, existing, args);
         }
 
         return null;
@@ -553,12 +1395,9 @@ export const handleSubscriptionCreated = mutation({
 
 export const handleSubscriptionUpdated = mutation({
       args: {
-        stripeSubscriptionId: v.string(),
-        status: v.string(),
-        currentPeriodEnd: v.number(),
-        cancelAtPeriodEnd: v.boolean(),
-        quantity: v.optional(v.number()),
-        metadata: v.optional(v.any()),
+        ...subscriptionEventArgs,
+        // Inserts the subscription when its created event hasn't arrived yet
+        stripeCustomerId: v.optional(v.string()),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -569,22 +1408,21 @@ export const handleSubscriptionUpdated = mutation({
           )
           .unique();
 
-        if (subscription) {
-          // Extract orgId and userId from metadata if present
-          const metadata = args.metadata || {};
-          const orgId = metadata.orgId as string | undefined;
-          const userId = metadata.userId as string | undefined;
-
-          await ctx.db.patch(subscription._id, {
-            status: args.status,
-            currentPeriodEnd: args.currentPeriodEnd,
-            cancelAtPeriodEnd: args.cancelAtPeriodEnd,
-            quantity: args.quantity,
-            // Only update metadata fields if provided
-            ...(args.metadata !== undefined && { metadata }),
-            ...(orgId !== undefined && { orgId }),
-            ...(userId !== undefined && { userId }),
-          });
+        if (!subscription) {
+          if (
+            args.stripeCustomerId !== undefined &&
+            args.priceId !== undefined
+          ) {
+            await insertSubscription(ctx, {
+              ...args,
+              stripeCustomerId: args.stripeCustomerId,
+              priceId: args.priceId,
+            });
+          }
+        } else if (
+          !isStaleEvent(subscription.lastEventCreated, args.eventCreated)
+        ) {
+          await updateSubscription(ctx, subscription, args);
         }
 
         return null;
@@ -594,6 +1432,21 @@ export const handleSubscriptionUpdated = mutation({
 export const handleSubscriptionDeleted = mutation({
       args: {
         stripeSubscriptionId: v.string(),
+        // The deleted subscription's fields, as sent with the update
+        status: v.optional(v.string()),
+        currentPeriodEnd: v.optional(v.number()),
+        cancelAtPeriodEnd: v.optional(v.boolean()),
+        quantity: v.optional(v.number()),
+        priceId: v.optional(v.string()),
+        lookupKey: v.optional(v.string()),
+        trialStart: v.optional(v.number()),
+        trialEnd: v.optional(v.number()),
+        ...subscriptionLifecycleFields,
+        metadata: v.optional(v.any()),
+        items: v.optional(v.array(subscriptionItemArgValidator)),
+        eventCreated: v.optional(v.number()),
+        eventId: v.optional(v.string()),
+        syncHook: v.optional(syncHookValidator),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -605,8 +1458,219 @@ export const handleSubscriptionDeleted = mutation({
           .unique();
 
         if (subscription) {
+          // Deletion is final, so it always applies and any older updates
+          // that arrive afterwards are dropped. The end and cancellation
+          // dates and reasons are only known from the deleted subscription.
           await ctx.db.patch(subscription._id, {
             status: "canceled",
+            ...(args.startDate !== undefined && {
+              ...lifecycleFields(args),
+              ...(args.currentPeriodEnd !== undefined && {
+                currentPeriodEnd: args.currentPeriodEnd,
+              }),
+              ...(args.cancelAtPeriodEnd !== undefined && {
+                cancelAtPeriodEnd: args.cancelAtPeriodEnd,
+              }),
+            }),
+            ...(args.eventCreated !== undefined && {
+              lastEventCreated: Math.max(
+                args.eventCreated,
+                subscription.lastEventCreated ?? 0
+              ),
+            }),
+          });
+          await recordSubscriptionChanges(
+            ctx,
+            args.stripeSubscriptionId,
+            subscription,
+            { status: "canceled" },
+            args
+          );
+          await runSubscriptionSyncHook(ctx, args.syncHook, subscription._id);
+        }
+
+        return null;
+      },
+});
+
+/**
+ * Store a subscription schedule from a `subscription_schedule.*` webhook, or
+ * from the Stripe API ahead of the webhook.
+ */
+export const handleSubscriptionScheduleUpdated = mutation({
+      args: {
+        stripeScheduleId: v.string(),
+        stripeCustomerId: v.string(),
+        stripeSubscriptionId: v.optional(v.string()),
+        status: v.string(),
+        endBehavior: v.string(),
+        currentPhase: v.optional(
+          v.object({ startDate: v.number(), endDate: v.number() })
+        ),
+        phases: v.array(subscriptionSchedulePhaseValidator),
+        releasedAt: v.optional(v.number()),
+        releasedSubscriptionId: v.optional(v.string()),
+        canceledAt: v.optional(v.number()),
+        metadata: v.optional(v.any()),
+        livemode: v.optional(v.boolean()),
+        eventCreated: v.optional(v.number()),
+      },
+      returns: v.null(),
+      handler: async (ctx, args) => {
+        const { eventCreated, ...fields } = args;
+        const schedule = await ctx.db
+          .query("subscription_schedules")
+          .withIndex("by_stripe_schedule_id", (q) =>
+            q.eq("stripeScheduleId", args.stripeScheduleId)
+          )
+          .unique();
+
+        if (!schedule) {
+          await ctx.db.insert("subscription_schedules", {
+            ...fields,
+            lastEventCreated: eventCreated,
+          });
+        } else if (!isStaleEvent(schedule.lastEventCreated, eventCreated)) {
+          await ctx.db.replace(schedule._id, {
+            ...fields,
+            livemode: args.livemode ?? schedule.livemode,
+            lastEventCreated: eventCreated ?? schedule.lastEventCreated,
+          });
+        }
+
+        return null;
+      },
+});
+
+export const handleActiveEntitlementSummaryUpdated = mutation({
+      args: {
+        stripeCustomerId: v.string(),
+        featureLookupKeys: v.array(v.string()),
+        livemode: v.optional(v.boolean()),
+        eventCreated: v.optional(v.number()),
+      },
+      returns: v.null(),
+      handler: async (ctx, args) => {
+        const summary = await ctx.db
+          .query("active_entitlements")
+          .withIndex("by_stripe_customer_id", (q) =>
+            q.eq("stripeCustomerId", args.stripeCustomerId)
+          )
+          .unique();
+
+        if (!summary) {
+          await ctx.db.insert("active_entitlements", {
+            stripeCustomerId: args.stripeCustomerId,
+            featureLookupKeys: args.featureLookupKeys,
+            livemode: args.livemode,
+            lastEventCreated: args.eventCreated,
+          });
+        } else if (!isStaleEvent(summary.lastEventCreated, args.eventCreated)) {
+          await ctx.db.patch(summary._id, {
+            featureLookupKeys: args.featureLookupKeys,
+            ...(args.livemode !== undefined && { livemode: args.livemode }),
+            ...(args.eventCreated !== undefined && {
+              lastEventCreated: args.eventCreated,
+            }),
+          });
+        }
+
+        return null;
+      },
+});
+
+export const handleProductUpdated = mutation({
+      args: {
+        stripeProductId: v.string(),
+        name: v.string(),
+        description: v.optional(v.string()),
+        active: v.boolean(),
+        defaultPriceId: v.optional(v.string()),
+        metadata: v.optional(v.any()),
+        livemode: v.optional(v.boolean()),
+        eventCreated: v.optional(v.number()),
+      },
+      returns: v.null(),
+      handler: async (ctx, args) => {
+        const { eventCreated, ...fields } = args;
+        const product = await ctx.db
+          .query("products")
+          .withIndex("by_stripe_product_id", (q) =>
+            q.eq("stripeProductId", args.stripeProductId)
+          )
+          .unique();
+
+        if (!product) {
+          await ctx.db.insert("products", {
+            ...fields,
+            lastEventCreated: eventCreated,
+          });
+        } else if (!isStaleEvent(product.lastEventCreated, eventCreated)) {
+          await ctx.db.replace(product._id, {
+            ...fields,
+            livemode: args.livemode ?? product.livemode,
+            lastEventCreated: eventCreated ?? product.lastEventCreated,
+          });
+        }
+
+        return null;
+      },
+});
+
+export const handleProductDeleted = mutation({
+      args: { stripeProductId: v.string() },
+      returns: v.null(),
+      handler: async (ctx, args) => {
+        const product = await ctx.db
+          .query("products")
+          .withIndex("by_stripe_product_id", (q) =>
+            q.eq("stripeProductId", args.stripeProductId)
+          )
+          .unique();
+        if (product) {
+          await ctx.db.delete(product._id);
+        }
+        return null;
+      },
+});
+
+export const handlePriceUpdated = mutation({
+      args: {
+        stripePriceId: v.string(),
+        stripeProductId: v.string(),
+        active: v.boolean(),
+        currency: v.string(),
+        unitAmount: v.optional(v.number()),
+        type: v.string(),
+        recurring: v.optional(
+          v.object({ interval: v.string(), intervalCount: v.number() })
+        ),
+        lookupKey: v.optional(v.string()),
+        nickname: v.optional(v.string()),
+        metadata: v.optional(v.any()),
+        livemode: v.optional(v.boolean()),
+        eventCreated: v.optional(v.number()),
+      },
+      returns: v.null(),
+      handler: async (ctx, args) => {
+        const { eventCreated, ...fields } = args;
+        const price = await ctx.db
+          .query("prices")
+          .withIndex("by_stripe_price_id", (q) =>
+            q.eq("stripePriceId", args.stripePriceId)
+          )
+          .unique();
+
+        if (!price) {
+          await ctx.db.insert("prices", {
+            ...fields,
+            lastEventCreated: eventCreated,
+          });
+        } else if (!isStaleEvent(price.lastEventCreated, eventCreated)) {
+          await ctx.db.replace(price._id, {
+            ...fields,
+            livemode: args.livemode ?? price.livemode,
+            lastEventCreated: eventCreated ?? price.lastEventCreated,
           });
         }
 
@@ -614,12 +1678,30 @@ export const handleSubscriptionDeleted = mutation({
       },
 });
 
+export const handlePriceDeleted = mutation({
+      args: { stripePriceId: v.string() },
+      returns: v.null(),
+      handler: async (ctx, args) => {
+        const price = await ctx.db
+          .query("prices")
+          .withIndex("by_stripe_price_id", (q) =>
+            q.eq("stripePriceId", args.stripePriceId)
+          )
+          .unique();
+        if (price) {
+          await ctx.db.delete(price._id);
+        }
+        return null;
+      },
+});
+
 export const handleCheckoutSessionCompleted = mutation({
       args: {
         stripeCheckoutSessionId: v.string(),
         stripeCustomerId: v.optional(v.string()),
         mode: v.string(),
         metadata: v.optional(v.any()),
+        livemode: v.optional(v.boolean()),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -634,6 +1716,7 @@ export const handleCheckoutSessionCompleted = mutation({
           await ctx.db.patch(existing._id, {
             status: "complete",
             stripeCustomerId: args.stripeCustomerId,
+            ...(args.livemode !== undefined && { livemode: args.livemode }),
           });
         } else {
           await ctx.db.insert("checkout_sessions", {
@@ -642,6 +1725,7 @@ export const handleCheckoutSessionCompleted = mutation({
             status: "complete",
             mode: args.mode,
             metadata: args.metadata || {},
+            livemode: args.livemode,
           });
         }
 
@@ -658,6 +1742,8 @@ export const handleInvoiceCreated = mutation({
         amountDue: v.number(),
         amountPaid: v.number(),
         created: v.number(),
+        livemode: v.optional(v.boolean()),
+        eventCreated: v.optional(v.number()),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -677,6 +1763,8 @@ export const handleInvoiceCreated = mutation({
             amountDue: args.amountDue,
             amountPaid: args.amountPaid,
             created: args.created,
+            livemode: args.livemode,
+            lastEventCreated: args.eventCreated,
           });
         }
 
@@ -687,7 +1775,9 @@ export const handleInvoiceCreated = mutation({
 export const handleInvoicePaid = mutation({
       args: {
         stripeInvoiceId: v.string(),
+        stripeSubscriptionId: v.optional(v.string()),
         amountPaid: v.number(),
+        eventCreated: v.optional(v.number()),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -697,11 +1787,39 @@ export const handleInvoicePaid = mutation({
             q.eq("stripeInvoiceId", args.stripeInvoiceId)
           )
           .unique();
+        if (
+          invoice &&
+          isStaleEvent(invoice.lastEventCreated, args.eventCreated)
+        ) {
+          return null;
+        }
 
         if (invoice) {
           await ctx.db.patch(invoice._id, {
             status: "paid",
             amountPaid: args.amountPaid,
+            nextPaymentAttempt: undefined,
+            ...(args.eventCreated !== undefined && {
+              lastEventCreated: args.eventCreated,
+            }),
+          });
+        }
+
+        // A paid invoice ends the subscription's dunning, unless it was paid
+        // before the payments started failing and its event arrived late
+        const subscription = await getSubscriptionById(
+          ctx,
+          args.stripeSubscriptionId
+        );
+        if (
+          subscription &&
+          (subscription.latestInvoiceId === args.stripeInvoiceId ||
+            !isStaleEvent(subscription.paymentFailedAt, args.eventCreated))
+        ) {
+          await ctx.db.patch(subscription._id, {
+            paymentFailedAt: undefined,
+            failedPaymentAttempts: undefined,
+            nextPaymentAttempt: undefined,
           });
         }
 
@@ -712,6 +1830,10 @@ export const handleInvoicePaid = mutation({
 export const handleInvoicePaymentFailed = mutation({
       args: {
         stripeInvoiceId: v.string(),
+        stripeSubscriptionId: v.optional(v.string()),
+        attemptCount: v.optional(v.number()),
+        nextPaymentAttempt: v.optional(v.number()),
+        eventCreated: v.optional(v.number()),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -721,10 +1843,39 @@ export const handleInvoicePaymentFailed = mutation({
             q.eq("stripeInvoiceId", args.stripeInvoiceId)
           )
           .unique();
+        if (
+          invoice &&
+          isStaleEvent(invoice.lastEventCreated, args.eventCreated)
+        ) {
+          return null;
+        }
 
         if (invoice) {
           await ctx.db.patch(invoice._id, {
             status: "open",
+            attemptCount: args.attemptCount,
+            nextPaymentAttempt: args.nextPaymentAttempt,
+            ...(args.eventCreated !== undefined && {
+              lastEventCreated: args.eventCreated,
+            }),
+          });
+        }
+
+        const subscription = await getSubscriptionById(
+          ctx,
+          args.stripeSubscriptionId
+        );
+        if (subscription) {
+          await ctx.db.patch(subscription._id, {
+            // The grace period runs from the first failure
+            paymentFailedAt:
+              subscription.paymentFailedAt ??
+              args.eventCreated ??
+              Math.floor(Date.now() / 1000),
+            failedPaymentAttempts:
+              args.attemptCount ??
+              (subscription.failedPaymentAttempts ?? 0) + 1,
+            nextPaymentAttempt: args.nextPaymentAttempt,
           });
         }
 
@@ -741,6 +1892,7 @@ export const handlePaymentIntentSucceeded = mutation({
         status: v.string(),
         created: v.number(),
         metadata: v.optional(v.any()),
+        livemode: v.optional(v.boolean()),
       },
       returns: v.null(),
       handler: async (ctx, args) => {
@@ -767,6 +1919,7 @@ export const handlePaymentIntentSucceeded = mutation({
             metadata: metadata,
             orgId: orgId,
             userId: userId,
+            livemode: args.livemode,
           });
         } else if (args.stripeCustomerId && !existing.stripeCustomerId) {
           // Update customer ID if it wasn't set initially (webhook timing issue)
@@ -802,3 +1955,234 @@ export const updatePaymentCustomer = mutation({
         return null;
       },
 });
+
+/**
+ * Record a webhook delivery in the event ledger.
+ * Returns `duplicate: true` if the event was already processed successfully
+ * or another delivery is still processing it, in which case the delivery
+ * should be acknowledged without reprocessing.
+ */
+export const recordWebhookEvent = mutation({
+  args: {
+    stripeEventId: v.string(),
+    type: v.string(),
+    livemode: v.boolean(),
+    payload: v.optional(v.string()),
+    signingSecretIndex: v.optional(v.number()),
+  },
+  returns: v.object({ duplicate: v.boolean() }),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("stripe_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .unique();
+
+    const now = Date.now();
+    if (
+      existing &&
+      (existing.status === "processed" || isLeased(existing, now))
+    ) {
+      return { duplicate: true };
+    }
+
+    if (existing) {
+      // A previous delivery failed (or never finished), so retry it
+      await ctx.db.patch(existing._id, {
+        status: "processing",
+        attempts: existing.attempts + 1,
+        claimedAt: now,
+        ...(args.payload !== undefined && { payload: args.payload }),
+        ...(args.signingSecretIndex !== undefined && {
+          signingSecretIndex: args.signingSecretIndex,
+        }),
+      });
+    } else {
+      await ctx.db.insert("stripe_events", {
+        stripeEventId: args.stripeEventId,
+        type: args.type,
+        livemode: args.livemode,
+        receivedAt: now,
+        status: "processing",
+        attempts: 1,
+        claimedAt: now,
+        payload: args.payload,
+        signingSecretIndex: args.signingSecretIndex,
+      });
+    }
+
+    return { duplicate: false };
+  },
+});
+
+/**
+ * Store a webhook event for asynchronous processing, and schedule the
+ * `processor` action, a function handle, to process it.
+ * Returns `duplicate: true` if the event is already queued, being processed,
+ * or was processed successfully.
+ */
+export const enqueueWebhookEvent = mutation({
+  args: {
+    stripeEventId: v.string(),
+    type: v.string(),
+    livemode: v.boolean(),
+    payload: v.string(),
+    signingSecretIndex: v.optional(v.number()),
+    processor: v.optional(v.string()),
+  },
+  returns: v.object({ duplicate: v.boolean() }),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("stripe_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .unique();
+
+    const now = Date.now();
+    if (
+      existing &&
+      (existing.status === "processed" || isLeased(existing, now))
+    ) {
+      return { duplicate: true };
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        status: "pending",
+        // A redelivered failed event gets all its attempts again
+        ...(existing.status === "failed" && { attempts: 0 }),
+        payload: args.payload,
+        nextAttemptAt: now,
+        signingSecretIndex: args.signingSecretIndex,
+      });
+    } else {
+      await ctx.db.insert("stripe_events", {
+        stripeEventId: args.stripeEventId,
+        type: args.type,
+        livemode: args.livemode,
+        receivedAt: now,
+        status: "pending",
+        attempts: 0,
+        payload: args.payload,
+        nextAttemptAt: now,
+        signingSecretIndex: args.signingSecretIndex,
+      });
+    }
+
+    if (args.processor) {
+      await ctx.scheduler.runAfter(
+        0,
+        args.processor as FunctionHandle<"action">,
+        { stripeEventId: args.stripeEventId }
+      );
+    }
+
+    return { duplicate: false };
+  },
+});
+
+/**
+ * Start a processing attempt for a stored webhook event.
+ * Returns the raw event payload and the attempt number, or null if the event
+ * is unknown, has no stored payload, was already processed, or another
+ * attempt is processing it.
+ */
+export const claimWebhookEvent = mutation({
+  args: {
+    stripeEventId: v.string(),
+  },
+  returns: v.union(
+    v.object({ payload: v.string(), attempts: v.number() }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("stripe_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .unique();
+
+    const now = Date.now();
+    if (
+      !event ||
+      event.status === "processed" ||
+      !event.payload ||
+      (event.status === "processing" && isLeased(event, now))
+    ) {
+      return null;
+    }
+
+    const attempts = event.attempts + 1;
+    await ctx.db.patch(event._id, {
+      status: "processing",
+      attempts,
+      nextAttemptAt: undefined,
+      claimedAt: now,
+    });
+
+    return { payload: event.payload, attempts };
+  },
+});
+
+export const markEventProcessed = mutation({
+  args: {
+    stripeEventId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("stripe_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .unique();
+
+    if (event) {
+      await ctx.db.patch(event._id, {
+        status: "processed",
+        processedAt: Date.now(),
+        error: undefined,
+        errorStack: undefined,
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Record a failed processing attempt. If `nextAttemptAt` is provided the
+ * event goes back to `pending` until its scheduled retry, otherwise it is
+ * marked as `failed`.
+ */
+export const markEventFailed = mutation({
+  args: {
+    stripeEventId: v.string(),
+    error: v.string(),
+    errorStack: v.optional(v.string()),
+    nextAttemptAt: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("stripe_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId)
+      )
+      .unique();
+
+    if (event) {
+      await ctx.db.patch(event._id, {
+        status: args.nextAttemptAt !== undefined ? "pending" : "failed",
+        error: args.error,
+        errorStack: args.errorStack,
+        nextAttemptAt: args.nextAttemptAt,
+      });
+    }
+
+    return null;
+  },
+});
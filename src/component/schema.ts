@@ -1,12 +1,54 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Subscription lifecycle fields synced as is from the Stripe subscription.
+// Timestamps are in seconds since the epoch like Stripe's.
+export const subscriptionLifecycleFields = {
+  currentPeriodStart: v.optional(v.number()),
+  startDate: v.optional(v.number()),
+  billingCycleAnchor: v.optional(v.number()),
+  cancelAt: v.optional(v.number()),
+  canceledAt: v.optional(v.number()),
+  endedAt: v.optional(v.number()),
+  collectionMethod: v.optional(v.string()),
+  pauseCollection: v.optional(
+    v.object({
+      behavior: v.string(),
+      resumesAt: v.optional(v.number()),
+    })
+  ),
+  latestInvoiceId: v.optional(v.string()),
+  defaultPaymentMethod: v.optional(v.string()),
+  // Why the subscription was canceled: Stripe's `reason`, and the customer's
+  // `feedback` and `comment`
+  cancellationDetails: v.optional(
+    v.object({
+      reason: v.optional(v.string()),
+      feedback: v.optional(v.string()),
+      comment: v.optional(v.string()),
+    })
+  ),
+};
+
+// A phase of a subscription schedule: the prices billed between two dates.
+export const subscriptionSchedulePhaseValidator = v.object({
+  startDate: v.number(),
+  endDate: v.number(),
+  items: v.array(
+    v.object({ priceId: v.string(), quantity: v.optional(v.number()) })
+  ),
+});
+
 export default defineSchema({
   customers: defineTable({
     stripeCustomerId: v.string(),
     email: v.optional(v.string()),
     name: v.optional(v.string()),
     metadata: v.optional(v.any()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
+    // `event.created` of the last webhook applied, to drop out-of-order events
+    lastEventCreated: v.optional(v.number()),
   }).index("by_stripe_customer_id", ["stripeCustomerId"]).index("by_email", ["email"]),
   subscriptions: defineTable({
     stripeSubscriptionId: v.string(),
@@ -16,21 +58,149 @@ export default defineSchema({
     cancelAtPeriodEnd: v.boolean(),
     quantity: v.optional(v.number()),
     priceId: v.string(),
+    // Lookup key of `priceId`, the same in test and live mode
+    lookupKey: v.optional(v.string()),
+    // Trial period, in seconds since the epoch like Stripe's timestamps
+    trialStart: v.optional(v.number()),
+    trialEnd: v.optional(v.number()),
+    ...subscriptionLifecycleFields,
+    // Failed payments since the last paid invoice, for dunning. Cleared once
+    // an invoice is paid.
+    paymentFailedAt: v.optional(v.number()),
+    failedPaymentAttempts: v.optional(v.number()),
+    nextPaymentAttempt: v.optional(v.number()),
     metadata: v.optional(v.any()),
     // Custom lookup fields for efficient querying
     orgId: v.optional(v.string()),
     userId: v.optional(v.string()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
+    // `event.created` of the last webhook applied, to drop out-of-order events
+    lastEventCreated: v.optional(v.number()),
   })
     .index("by_stripe_subscription_id", ["stripeSubscriptionId"])
     .index("by_stripe_customer_id", ["stripeCustomerId"])
     .index("by_org_id", ["orgId"])
-    .index("by_user_id", ["userId"]),
+    .index("by_user_id", ["userId"])
+    .index("by_canceled_at", ["canceledAt"]),
+  // Every item of a subscription, e.g. a base price, seats and usage
+  subscription_items: defineTable({
+    stripeSubscriptionItemId: v.string(),
+    stripeSubscriptionId: v.string(),
+    priceId: v.string(),
+    productId: v.string(),
+    lookupKey: v.optional(v.string()),
+    // Not set for metered prices
+    quantity: v.optional(v.number()),
+    currentPeriodStart: v.number(),
+    currentPeriodEnd: v.number(),
+    metadata: v.optional(v.any()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_subscription_item_id", ["stripeSubscriptionItemId"])
+    .index("by_stripe_subscription_id", ["stripeSubscriptionId"]),
+  // History of subscription status, price, quantity and cancel-flag changes
+  subscription_events: defineTable({
+    stripeSubscriptionId: v.string(),
+    field: v.union(
+      v.literal("status"),
+      v.literal("priceId"),
+      v.literal("quantity"),
+      v.literal("cancelAtPeriodEnd")
+    ),
+    // Unset for the values recorded when the subscription is created
+    from: v.optional(v.union(v.string(), v.number(), v.boolean())),
+    to: v.optional(v.union(v.string(), v.number(), v.boolean())),
+    // Webhook event that made the change. Unset for changes made through the
+    // Stripe API, which are recorded ahead of their webhook.
+    stripeEventId: v.optional(v.string()),
+    // When the change happened, in seconds since the epoch
+    timestamp: v.number(),
+  }).index("by_stripe_subscription_id", ["stripeSubscriptionId", "timestamp"]),
+  // Subscription schedules, used to defer plan changes such as a downgrade
+  // at the end of the current period
+  subscription_schedules: defineTable({
+    stripeScheduleId: v.string(),
+    stripeCustomerId: v.string(),
+    // Unset once the schedule is released or canceled
+    stripeSubscriptionId: v.optional(v.string()),
+    // not_started, active, completed, released or canceled
+    status: v.string(),
+    // What happens after the last phase: release or cancel
+    endBehavior: v.string(),
+    currentPhase: v.optional(
+      v.object({ startDate: v.number(), endDate: v.number() })
+    ),
+    phases: v.array(subscriptionSchedulePhaseValidator),
+    releasedAt: v.optional(v.number()),
+    releasedSubscriptionId: v.optional(v.string()),
+    canceledAt: v.optional(v.number()),
+    metadata: v.optional(v.any()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
+    // `event.created` of the last webhook applied, to drop out-of-order events
+    lastEventCreated: v.optional(v.number()),
+  })
+    .index("by_stripe_schedule_id", ["stripeScheduleId"])
+    .index("by_stripe_subscription_id", ["stripeSubscriptionId"])
+    .index("by_stripe_customer_id", ["stripeCustomerId"]),
+  // Stripe Entitlements features a customer currently has access to, from
+  // the `entitlements.active_entitlement_summary.updated` webhook
+  active_entitlements: defineTable({
+    stripeCustomerId: v.string(),
+    // Lookup keys of the active features
+    featureLookupKeys: v.array(v.string()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
+    // `event.created` of the last webhook applied, to drop out-of-order events
+    lastEventCreated: v.optional(v.number()),
+  }).index("by_stripe_customer_id", ["stripeCustomerId"]),
+  // Product catalog, synced from `product.*` webhooks
+  products: defineTable({
+    stripeProductId: v.string(),
+    name: v.string(),
+    description: v.optional(v.string()),
+    active: v.boolean(),
+    defaultPriceId: v.optional(v.string()),
+    metadata: v.optional(v.any()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
+    // `event.created` of the last webhook applied, to drop out-of-order events
+    lastEventCreated: v.optional(v.number()),
+  }).index("by_stripe_product_id", ["stripeProductId"]),
+  // Prices of the products, synced from `price.*` webhooks
+  prices: defineTable({
+    stripePriceId: v.string(),
+    stripeProductId: v.string(),
+    active: v.boolean(),
+    currency: v.string(),
+    // In the smallest currency unit. Not set for tiered or custom prices.
+    unitAmount: v.optional(v.number()),
+    // one_time or recurring
+    type: v.string(),
+    recurring: v.optional(
+      v.object({ interval: v.string(), intervalCount: v.number() })
+    ),
+    lookupKey: v.optional(v.string()),
+    nickname: v.optional(v.string()),
+    metadata: v.optional(v.any()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
+    // `event.created` of the last webhook applied, to drop out-of-order events
+    lastEventCreated: v.optional(v.number()),
+  })
+    .index("by_stripe_price_id", ["stripePriceId"])
+    .index("by_stripe_product_id", ["stripeProductId"])
+    .index("by_lookup_key", ["lookupKey"]),
   checkout_sessions: defineTable({
     stripeCheckoutSessionId: v.string(),
     stripeCustomerId: v.optional(v.string()),
     status: v.string(),
     mode: v.string(),
     metadata: v.optional(v.any()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
   }).index("by_stripe_checkout_session_id", ["stripeCheckoutSessionId"]),
   payments: defineTable({
     stripePaymentIntentId: v.string(),
@@ -43,6 +213,8 @@ export default defineSchema({
     // Custom lookup fields for efficient querying
     orgId: v.optional(v.string()),
     userId: v.optional(v.string()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
   })
     .index("by_stripe_payment_intent_id", ["stripePaymentIntentId"])
     .index("by_stripe_customer_id", ["stripeCustomerId"])
@@ -56,7 +228,42 @@ export default defineSchema({
     amountDue: v.number(),
     amountPaid: v.number(),
     created: v.number(),
+    // Payment attempts so far, and when Stripe retries next
+    attemptCount: v.optional(v.number()),
+    nextPaymentAttempt: v.optional(v.number()),
+    // Whether the row came from live or test mode Stripe data
+    livemode: v.optional(v.boolean()),
+    // `event.created` of the last webhook applied, to drop out-of-order events
+    lastEventCreated: v.optional(v.number()),
   })
     .index("by_stripe_invoice_id", ["stripeInvoiceId"])
     .index("by_stripe_customer_id", ["stripeCustomerId"]),
+  // Ledger of every webhook event delivered by Stripe, used to deduplicate
+  // retried deliveries.
+  stripe_events: defineTable({
+    stripeEventId: v.string(),
+    type: v.string(),
+    livemode: v.boolean(),
+    receivedAt: v.number(),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("processing"),
+      v.literal("processed"),
+      v.literal("failed")
+    ),
+    attempts: v.number(),
+    processedAt: v.optional(v.number()),
+    error: v.optional(v.string()),
+    errorStack: v.optional(v.string()),
+    // Raw event body, kept so failed events can be processed again
+    payload: v.optional(v.string()),
+    nextAttemptAt: v.optional(v.number()),
+    // When the current processing attempt started
+    claimedAt: v.optional(v.number()),
+    // Position of the signing secret that verified the event in the
+    // configured list
+    signingSecretIndex: v.optional(v.number()),
+  })
+    .index("by_stripe_event_id", ["stripeEventId"])
+    .index("by_status", ["status"]),
 });
@@ -1,5 +1,6 @@
 import type { TestConvex } from "convex-test";
 import type { GenericSchema, SchemaDefinition } from "convex/server";
+import StripeSDK from "stripe";
 import schema from "./component/schema.js";
 const modules = import.meta.glob("./component/**/*.ts");
 
@@ -14,4 +15,345 @@ export function register(
 ) {
   t.registerComponent(name, schema, modules);
 }
+
+// ============================================================================
+// WEBHOOK TEST HELPERS
+// ============================================================================
+
+/**
+ * Webhook signing secret used by `sendStripeWebhook` when none is given.
+ * Configure your app with the same secret in tests, e.g.
+ * `vi.stubEnv("STRIPE_WEBHOOK_SECRET", TEST_WEBHOOK_SECRET)`.
+ */
+export const TEST_WEBHOOK_SECRET = "whsec_test_secret";
+
+let nextId = 0;
+function testId(prefix: string) {
+  nextId++;
+  return `${prefix}_test_${nextId}`;
+}
+
+function now() {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Build a Stripe customer object.
+ */
+export function buildCustomer(
+  overrides: Partial<StripeSDK.Customer> = {}
+): StripeSDK.Customer {
+  return {
+    id: testId("cus"),
+    object: "customer",
+    created: now(),
+    email: "customer@example.com",
+    name: "Test Customer",
+    livemode: false,
+    metadata: {},
+    ...overrides,
+  } as StripeSDK.Customer;
+}
+
+/**
+ * Build a Stripe subscription item. `priceId`, `productId` and `lookupKey`
+ * set the item's price.
+ */
+export function buildSubscriptionItem(
+  overrides: Partial<StripeSDK.SubscriptionItem> & {
+    priceId?: string;
+    productId?: string;
+    lookupKey?: string;
+  } = {}
+): StripeSDK.SubscriptionItem {
+  const { priceId, productId, lookupKey, ...fields } = overrides;
+  const start = fields.current_period_start ?? now();
+  return {
+    id: testId("si"),
+    object: "subscription_item",
+    subscription: testId("sub"),
+    created: start,
+    current_period_start: start,
+    current_period_end: start + 30 * 24 * 60 * 60,
+    quantity: 1,
+    metadata: {},
+    price: {
+      id: priceId ?? "price_test",
+      object: "price",
+      product: productId ?? "prod_test",
+      active: true,
+      currency: "usd",
+      unit_amount: 1000,
+      type: "recurring",
+      recurring: { interval: "month", interval_count: 1 },
+      lookup_key: lookupKey ?? null,
+    },
+    ...fields,
+  } as StripeSDK.SubscriptionItem;
+}
+
+/**
+ * Build a Stripe subscription object. Without `items`, it has a single item
+ * whose fields are set by `priceId`, `quantity` and `currentPeriodEnd`.
+ */
+export function buildSubscription(
+  overrides: Omit<Partial<StripeSDK.Subscription>, "items"> & {
+    items?: StripeSDK.SubscriptionItem[];
+    priceId?: string;
+    quantity?: number;
+    currentPeriodEnd?: number;
+  } = {}
+): StripeSDK.Subscription {
+  const { items, priceId, quantity, currentPeriodEnd, ...fields } = overrides;
+  const id = fields.id ?? testId("sub");
+  const created = fields.created ?? now();
+  const data = items ?? [
+    buildSubscriptionItem({
+      subscription: id,
+      priceId,
+      quantity: quantity ?? 1,
+      current_period_start: created,
+      current_period_end: currentPeriodEnd ?? created + 30 * 24 * 60 * 60,
+    }),
+  ];
+  return {
+    id,
+    object: "subscription",
+    customer: testId("cus"),
+    status: "active",
+    created,
+    start_date: created,
+    billing_cycle_anchor: created,
+    cancel_at: null,
+    cancel_at_period_end: false,
+    canceled_at: null,
+    ended_at: null,
+    collection_method: "charge_automatically",
+    livemode: false,
+    metadata: {},
+    items: {
+      object: "list",
+      data: data.map((item) => ({ ...item, subscription: id })),
+      has_more: false,
+      url: `/v1/subscription_items?subscription=${id}`,
+    },
+    ...fields,
+  } as StripeSDK.Subscription;
+}
+
+/**
+ * Build a Stripe subscription schedule object. Without `phases`, it has the
+ * subscription's current period as its only phase, like a schedule created
+ * with `from_subscription`.
+ */
+export function buildSubscriptionSchedule(
+  overrides: Partial<StripeSDK.SubscriptionSchedule> = {}
+): StripeSDK.SubscriptionSchedule {
+  const created = overrides.created ?? now();
+  const phase = {
+    start_date: created,
+    end_date: created + 30 * 24 * 60 * 60,
+    items: [{ price: "price_test", quantity: 1 }],
+  };
+  return {
+    id: testId("sub_sched"),
+    object: "subscription_schedule",
+    customer: testId("cus"),
+    subscription: testId("sub"),
+    status: "active",
+    created,
+    current_phase: { start_date: phase.start_date, end_date: phase.end_date },
+    end_behavior: "release",
+    phases: [phase],
+    released_at: null,
+    released_subscription: null,
+    canceled_at: null,
+    completed_at: null,
+    livemode: false,
+    metadata: {},
+    ...overrides,
+  } as StripeSDK.SubscriptionSchedule;
+}
+
+/**
+ * Build a Stripe product object.
+ */
+export function buildProduct(
+  overrides: Partial<StripeSDK.Product> = {}
+): StripeSDK.Product {
+  return {
+    id: testId("prod"),
+    object: "product",
+    name: "Test Product",
+    description: null,
+    active: true,
+    default_price: null,
+    created: now(),
+    livemode: false,
+    metadata: {},
+    ...overrides,
+  } as StripeSDK.Product;
+}
+
+/**
+ * Build a monthly Stripe price object.
+ */
+export function buildPrice(
+  overrides: Partial<StripeSDK.Price> = {}
+): StripeSDK.Price {
+  return {
+    id: testId("price"),
+    object: "price",
+    product: testId("prod"),
+    active: true,
+    currency: "usd",
+    unit_amount: 1000,
+    type: "recurring",
+    recurring: { interval: "month", interval_count: 1 },
+    lookup_key: null,
+    nickname: null,
+    created: now(),
+    livemode: false,
+    metadata: {},
+    ...overrides,
+  } as StripeSDK.Price;
+}
+
+/**
+ * Build a Stripe invoice object.
+ */
+export function buildInvoice(
+  overrides: Partial<StripeSDK.Invoice> = {}
+): StripeSDK.Invoice {
+  return {
+    id: testId("in"),
+    object: "invoice",
+    customer: testId("cus"),
+    status: "open",
+    amount_due: 1000,
+    amount_paid: 0,
+    amount_remaining: 1000,
+    currency: "usd",
+    created: now(),
+    livemode: false,
+    metadata: {},
+    ...overrides,
+  } as StripeSDK.Invoice;
+}
+
+/**
+ * Build a Stripe payment intent object for a one-time payment.
+ */
+export function buildPaymentIntent(
+  overrides: Partial<StripeSDK.PaymentIntent> = {}
+): StripeSDK.PaymentIntent {
+  return {
+    id: testId("pi"),
+    object: "payment_intent",
+    customer: null,
+    amount: 1000,
+    amount_received: 1000,
+    currency: "usd",
+    status: "succeeded",
+    created: now(),
+    livemode: false,
+    metadata: {},
+    ...overrides,
+  } as StripeSDK.PaymentIntent;
+}
+
+/**
+ * Build a completed Stripe Checkout session object.
+ */
+export function buildCheckoutSession(
+  overrides: Partial<StripeSDK.Checkout.Session> = {}
+): StripeSDK.Checkout.Session {
+  return {
+    id: testId("cs"),
+    object: "checkout.session",
+    customer: null,
+    mode: "payment",
+    status: "complete",
+    payment_status: "paid",
+    payment_intent: null,
+    subscription: null,
+    created: now(),
+    livemode: false,
+    metadata: {},
+    ...overrides,
+  } as StripeSDK.Checkout.Session;
+}
+
+/**
+ * Wrap an object built by the helpers above in a Stripe event.
+ */
+export function buildStripeEvent<
+  T extends StripeSDK.Event.Type,
+  O extends { livemode?: boolean },
+>(
+  type: T,
+  object: O,
+  options: {
+    id?: string;
+    created?: number;
+    previousAttributes?: Record<string, unknown>;
+  } = {}
+): Extract<StripeSDK.Event, { type: T }> {
+  return {
+    id: options.id ?? testId("evt"),
+    object: "event",
+    type,
+    api_version: null,
+    created: options.created ?? now(),
+    livemode: object.livemode ?? false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    data: {
+      object,
+      ...(options.previousAttributes && {
+        previous_attributes: options.previousAttributes,
+      }),
+    },
+  } as unknown as Extract<StripeSDK.Event, { type: T }>;
+}
+
+/**
+ * Compute a `Stripe-Signature` header for a payload, using Stripe's
+ * signature scheme. Runs offline.
+ */
+export async function signStripePayload(
+  payload: string,
+  options: { secret?: string; timestamp?: number } = {}
+) {
+  return await StripeSDK.webhooks.generateTestHeaderStringAsync({
+    payload,
+    secret: options.secret ?? TEST_WEBHOOK_SECRET,
+    timestamp: options.timestamp,
+  });
+}
+
+/**
+ * Sign an event and POST it to the webhook route registered with
+ * `stripe.registerRoutes`, through `t.fetch`.
+ * @param t - The test convex instance.
+ * @param event - The event, e.g. from `buildStripeEvent`.
+ * @param options.secret - Signing secret. Defaults to `TEST_WEBHOOK_SECRET`.
+ * @param options.path - Webhook path. Defaults to "/stripe/webhook".
+ */
+export async function sendStripeWebhook(
+  t: TestConvex<SchemaDefinition<GenericSchema, boolean>>,
+  event: StripeSDK.Event,
+  options: { secret?: string; path?: string } = {}
+) {
+  const payload = JSON.stringify(event);
+  return await t.fetch(options.path ?? "/stripe/webhook", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "stripe-signature": await signStripePayload(payload, options),
+    },
+    body: payload,
+  });
+}
+
 export default { register, schema, modules };